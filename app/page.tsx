@@ -1,103 +1,128 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { useAccount, useConnect, useDisconnect, useSwitchChain } from 'wagmi';
+import { Fragment, useState, useCallback, useEffect, useMemo, type ChangeEvent } from 'react';
+import Image from 'next/image';
+import { useAccount, useConnect, useDisconnect, usePublicClient, useSwitchChain } from 'wagmi';
 import { injected } from 'wagmi/connectors';
-import { lukso } from 'wagmi/chains';
-import { encodeFunctionData, formatUnits, parseUnits, type Address } from 'viem';
-
-// --- Types ---
-
-type EthereumProvider = {
-  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
-};
-
-interface EIP6963ProviderInfo {
-  uuid: string;
-  name: string;
-  icon: string;
-  rdns: string;
-}
-
-interface EIP6963ProviderDetail {
-  info: EIP6963ProviderInfo;
-  provider: EthereumProvider;
-}
-
-interface TokenAsset {
-  address: string;
-  name: string;
-  symbol: string;
-  type: 'LSP7' | 'LSP8';
-  balance: string;
-  decimals: number;
-  selected: boolean;
-  iconUrl?: string;
-  tokenIds?: string[]; // bytes32 token IDs for LSP8
-  transferAmount: string; // human-readable amount to transfer (LSP7 only)
-}
-
-interface TransferStatus {
-  address: string;
-  status: 'pending' | 'transferring' | 'success' | 'error';
-  txHash?: string;
-  error?: string;
-}
-
-// --- Constants ---
-
-const LUKSO_CHAIN_PARAMS = {
-  chainId: '0x2a',
-  chainName: 'LUKSO Mainnet',
-  nativeCurrency: {
-    name: 'LUKSO',
-    symbol: 'LYX',
-    decimals: 18,
-  },
-  rpcUrls: ['https://rpc.mainnet.lukso.network'],
-  blockExplorerUrls: ['https://explorer.execution.mainnet.lukso.network'],
-};
-
-const ENVIO_INDEXER = 'https://envio.lukso-mainnet.universal.tech/v1/graphql';
-
-// LSP7 transfer(address from, address to, uint256 amount, bool force, bytes data)
-const LSP7_TRANSFER_ABI = [
-  {
-    name: 'transfer',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'from', type: 'address' },
-      { name: 'to', type: 'address' },
-      { name: 'amount', type: 'uint256' },
-      { name: 'force', type: 'bool' },
-      { name: 'data', type: 'bytes' },
-    ],
-    outputs: [],
-  },
-] as const;
-
-// LSP8 transfer(address from, address to, bytes32 tokenId, bool force, bytes data)
-const LSP8_TRANSFER_ABI = [
-  {
-    name: 'transfer',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'from', type: 'address' },
-      { name: 'to', type: 'address' },
-      { name: 'tokenId', type: 'bytes32' },
-      { name: 'force', type: 'bool' },
-      { name: 'data', type: 'bytes' },
-    ],
-    outputs: [],
-  },
-] as const;
+import { formatUnits, isAddress, type Address } from 'viem';
+import {
+  DEFAULT_LYX_TRANSFER_GAS,
+  DEFAULT_TRANSFER_GAS,
+} from '@/lib/constants';
+import { createDestination, destinationForce, resolveDestination, transferKey } from '@/lib/destinations';
+import { formatBalance, formatTokenId, formatTransferData, getErrorMessage, getExplorerTxUrl, shortenAddress } from '@/lib/format';
+import { fetchTokensForAddress } from '@/lib/indexer';
+import { checkNetworkHealth, type EndpointHealth, type NetworkHealth } from '@/lib/health';
+import { identicon, isOptimizedImageUrl, resolveImageUrl } from '@/lib/images';
+import {
+  DEFAULT_NETWORK,
+  NETWORKS,
+  isEndpointUrl,
+  loadEndpointOverrides,
+  loadNetworkId,
+  resolveNetwork,
+  saveEndpointOverrides,
+  saveNetworkId,
+  type EndpointOverrides,
+  type Endpoints,
+  type Network,
+  type NetworkId,
+} from '@/lib/networks';
+import { checkDestination, discoverTokenOnChain, verifyAssetsOnChain } from '@/lib/onchain';
+import {
+  batchLegs,
+  createNativeLyxAsset,
+  deselectReverting,
+  estimateGasReserve,
+  estimateSourceCosts,
+  QUEUE_STOPPED_ERROR,
+  executeBundle,
+  executeTransfers,
+  initialTransferStatuses,
+  legRef,
+  parseTransferData,
+  planCalls,
+  planLegs,
+  planTransfers,
+  simulateTransfers,
+  splitTotal,
+  trimToBalance,
+  type SourceCost,
+  type TransferRef,
+} from '@/lib/transfers';
+import type {
+  AmountSplit,
+  Destination,
+  EIP6963ProviderDetail,
+  EthereumProvider,
+  ScanProgress,
+  ScanResult,
+  SimulationResult,
+  SourceAccount,
+  TokenAsset,
+  TransferLeg,
+  TransferStatus,
+} from '@/lib/types';
+import {
+  buildReport,
+  createMigrationId,
+  deleteFromHistory,
+  downloadReport,
+  loadHistory,
+  saveToHistory,
+  type MigrationReport,
+  type ReportDestination,
+} from '@/lib/report';
+import {
+  clearSession,
+  excludeSentTransfers,
+  isSessionComplete,
+  keepSentTransfers,
+  loadSession,
+  mergeTransferStatuses,
+  prepareResume,
+  saveSession,
+  summarizeSession,
+  type SavedSession,
+} from '@/lib/session';
+import { ACCOUNT_SKIPPED_ERROR, assetKey, groupLegsBySource, isSameAccount } from '@/lib/sources';
+import { DEFAULT_ASSET_FILTER, filterAssets, isFilterActive, type AssetFilter } from '@/lib/filters';
+import { applySharedPlan, createSharedPlan, parseShareParams, toShareParams, type SharedPlan } from '@/lib/share';
+import {
+  buildTransactionPlan,
+  decodeTransaction,
+  diffTransactionPlans,
+  downloadPlan,
+  executePlan,
+  parseTransactionPlan,
+  type PlanTransactionStatus,
+  type TransactionPlan,
+} from '@/lib/txplan';
+import {
+  BUNDLED_BLOCKLIST,
+  EMPTY_TOKEN_LISTS,
+  applySpamFilter,
+  loadTokenLists,
+  markToken,
+  parseAddressList,
+  saveTokenLists,
+  type TokenLists,
+} from '@/lib/spam';
+import {
+  getLuksoProvider,
+  getWalletMismatch,
+  isUPWallet,
+  requestAccountSwitch,
+  sendViaProvider,
+  supportsAtomicBatch,
+  switchNetwork,
+  waitForReceipt,
+  waitForWalletContext,
+  type WalletMismatch,
+} from '@/lib/wallets';
 
 // --- EIP-6963: Multi Injected Provider Discovery ---
 
-const UP_FILTERS = ['universalprofile', 'lukso', 'universal profile', 'universal-profile'];
-
 function useEIP6963Providers() {
   const [providers, setProviders] = useState<EIP6963ProviderDetail[]>([]);
 
@@ -122,164 +147,739 @@ function useEIP6963Providers() {
   return providers;
 }
 
-function isUPWallet(value: string): boolean {
-  const lower = value.toLowerCase();
-  return UP_FILTERS.some(f => lower.includes(f));
+// --- UI components ---
+
+function TransferStatusIndicator({ status, network, compact = false }: { status: TransferStatus; network: Network; compact?: boolean }) {
+  const iconSize = compact ? 'w-4 h-4' : 'w-5 h-5';
+  return (
+    <div className="shrink-0 flex items-center gap-2">
+      {status.txHash && !compact && (
+        <a
+          href={getExplorerTxUrl(network, status.txHash)}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="text-xs text-gray-400 hover:text-pink-300 font-mono underline transition-colors"
+          title={status.txHash}
+        >
+          {status.txHash.slice(0, 6)}...{status.txHash.slice(-4)}
+        </a>
+      )}
+      {status.status === 'transferring' && (
+        <svg className={`animate-spin ${iconSize} text-pink-400`} viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+        </svg>
+      )}
+      {status.status === 'submitted' && (
+        <svg className={`animate-spin ${iconSize} text-yellow-400`} viewBox="0 0 24 24" aria-label="Waiting for confirmation">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+        </svg>
+      )}
+      {status.status === 'confirmed' && (
+        <svg className={`${iconSize} text-green-400`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      )}
+      {(status.status === 'error' || status.status === 'reverted') && (
+        <div className="group relative">
+          <svg className={`${iconSize} text-red-400`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          {status.error && (
+            <div className="absolute right-0 bottom-full mb-2 w-48 p-2 bg-gray-800 border border-gray-700 rounded-lg text-xs text-red-400 hidden group-hover:block z-10">
+              {status.error}
+            </div>
+          )}
+        </div>
+      )}
+      {compact && status.txHash && (
+        <a
+          href={getExplorerTxUrl(network, status.txHash)}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="text-gray-500 hover:text-pink-300 transition-colors"
+          title={status.txHash}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+          </svg>
+        </a>
+      )}
+    </div>
+  );
 }
 
-// --- Helpers ---
+function MigrationHistory({ history, onDelete }: { history: MigrationReport[]; onDelete: (id: string) => void }) {
+  const [open, setOpen] = useState(false);
+  if (history.length === 0) return null;
 
-function getEthereumProvider(): EthereumProvider | undefined {
-  if (typeof window === 'undefined') return undefined;
-  return (window as unknown as { ethereum?: EthereumProvider }).ethereum;
+  return (
+    <div className="mt-8">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between text-sm text-gray-400 hover:text-gray-300 transition-colors"
+      >
+        <span>Past migrations ({history.length})</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && (
+        <div className="mt-3 space-y-2">
+          {history.map(report => {
+            const confirmed = report.entries.filter(e => e.status === 'confirmed').length;
+            const failed = report.entries.filter(e => e.status === 'error' || e.status === 'reverted').length;
+            return (
+              <div key={report.id} className="p-3 bg-gray-900/50 border border-gray-800 rounded-xl text-sm flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-300">
+                    {new Date(report.createdAt).toLocaleString()}
+                    {report.network !== 'mainnet' && <span className="ml-2 text-xs text-yellow-400">{NETWORKS[report.network].chainParams.chainName}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 font-mono truncate">
+                    {report.sources.map(shortenAddress).join(', ')} → {report.destinations.map(d => shortenAddress(d.address)).join(', ')}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {confirmed} of {report.entries.length} confirmed{failed > 0 && ` · ${failed} failed`}
+                  </p>
+                </div>
+                <button onClick={() => downloadReport(report, 'csv')} className="text-xs text-gray-400 hover:text-pink-400 transition-colors">CSV</button>
+                <button onClick={() => downloadReport(report, 'json')} className="text-xs text-gray-400 hover:text-pink-400 transition-colors">JSON</button>
+                <button onClick={() => onDelete(report.id)} className="text-xs text-gray-500 hover:text-red-400 transition-colors">Delete</button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
 }
 
-function getLuksoProvider(): EthereumProvider | undefined {
-  if (typeof window === 'undefined') return undefined;
-  return (window as unknown as { lukso?: EthereumProvider }).lukso;
+const ENDPOINT_FIELDS: Array<{ key: keyof Endpoints; label: string }> = [
+  { key: 'rpcUrl', label: 'RPC' },
+  { key: 'indexerUrl', label: 'Indexer (GraphQL)' },
+  { key: 'explorerUrl', label: 'Explorer' },
+  { key: 'ipfsGatewayUrl', label: 'IPFS gateway' },
+];
+
+function HealthLine({ health, network }: { health: EndpointHealth; network: Network }) {
+  if (health.status === 'down') {
+    return <p className="text-xs text-red-400">No response{health.error && ` — ${health.error}`}</p>;
+  }
+  const chain = health.chainId === undefined ? 'no chain ID reported' : `chain ${health.chainId}`;
+  return (
+    <p className={`text-xs ${health.status === 'ok' ? 'text-green-400' : 'text-yellow-400'}`}>
+      Responds in {health.latencyMs} ms · {chain}
+      {health.status === 'wrong-chain' && ` (expected ${network.chain.id} for ${network.chainParams.chainName})`}
+    </p>
+  );
 }
 
-function formatBalance(balance: string, decimals: number): string {
-  const formatted = formatUnits(BigInt(balance), decimals);
-  const num = parseFloat(formatted);
-  if (num === 0) return '0';
-  if (num < 0.0001) return '<0.0001';
-  if (num < 1) return num.toFixed(4);
-  if (num < 1000) return num.toFixed(2);
-  return num.toLocaleString('en-US', { maximumFractionDigits: 2 });
+// RPC, indexer, explorer and IPFS gateway of the selected network, overridable per browser
+function EndpointSettings({ network, overrides, onSave }: {
+  network: Network;
+  overrides: EndpointOverrides;
+  onSave: (overrides: EndpointOverrides) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Partial<Endpoints>>({});
+  const [error, setError] = useState('');
+  const [health, setHealth] = useState<NetworkHealth | null>(null);
+
+  useEffect(() => {
+    setDraft(overrides[network.id] ?? {});
+    setError('');
+  }, [network.id, overrides]);
+
+  // Check the endpoints in use whenever the panel opens or they change
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setHealth(null);
+    checkNetworkHealth(network).then(result => {
+      if (!cancelled) setHealth(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, network]);
+
+  const handleSave = () => {
+    const entries = ENDPOINT_FIELDS
+      .map(({ key }) => [key, draft[key]?.trim() ?? ''] as const)
+      .filter(([, url]) => url);
+    const invalid = entries.find(([, url]) => !isEndpointUrl(url));
+    if (invalid) {
+      setError(`${ENDPOINT_FIELDS.find(f => f.key === invalid[0])!.label}: enter an http(s) URL.`);
+      return;
+    }
+    onSave({ ...overrides, [network.id]: Object.fromEntries(entries) });
+  };
+
+  const handleReset = () => {
+    const rest = { ...overrides };
+    delete rest[network.id];
+    onSave(rest);
+  };
+
+  return (
+    <div className="mt-4">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between text-sm text-gray-400 hover:text-gray-300 transition-colors"
+      >
+        <span>Endpoints ({network.chainParams.chainName})</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && (
+        <div className="mt-3 p-4 bg-gray-900/50 border border-gray-800 rounded-xl text-sm space-y-3">
+          <p className="text-xs text-gray-500">Leave a field empty to use this deployment&apos;s default. Overrides are stored in this browser only.</p>
+          {ENDPOINT_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-xs text-gray-400 mb-1">{label}</label>
+              <input
+                type="url"
+                value={draft[key] ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                placeholder={NETWORKS[network.id][key]}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 font-mono text-xs focus:outline-none focus:border-pink-500"
+              />
+              <div className="mt-1">
+                {health ? <HealthLine health={health[key]} network={network} /> : <p className="text-xs text-gray-500">Checking...</p>}
+              </div>
+            </div>
+          ))}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex gap-3">
+            <button onClick={handleSave} className="text-xs font-semibold text-pink-400 hover:text-pink-300 transition-colors">Save</button>
+            <button onClick={handleReset} className="text-xs text-gray-400 hover:text-gray-300 transition-colors">Reset to defaults</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
 }
 
-async function queryIndexer(query: string): Promise<unknown> {
-  const res = await fetch(ENVIO_INDEXER, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ query }),
-  });
-  if (!res.ok) throw new Error(`Indexer request failed: ${res.status}`);
-  const json = await res.json();
-  if (json.errors) throw new Error(json.errors[0]?.message || 'GraphQL error');
-  return json.data;
+function SourceList({ sources, onRemove }: { sources: SourceAccount[]; onRemove?: (address: string) => void }) {
+  return (
+    <div className="space-y-2">
+      {sources.map(source => (
+        <div key={source.address} className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg flex items-center gap-3 text-sm">
+          <span className="text-white font-mono truncate">{source.address}</span>
+          <span className="ml-auto text-xs text-gray-400 shrink-0">{source.walletName}</span>
+          {onRemove && (
+            <button
+              onClick={() => onRemove(source.address)}
+              className="text-xs text-gray-500 hover:text-red-400 transition-colors"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
 }
 
-async function fetchTokensForAddress(address: string): Promise<TokenAsset[]> {
-  const tokens: TokenAsset[] = [];
-  const addr = address.toLowerCase();
-
-  // Fetch LSP7 and LSP8 holdings in parallel from the Envio indexer
-  const [lsp7Data, lsp8Data] = await Promise.all([
-    queryIndexer(`{
-      Hold(
-        where: {
-          profile_id: { _eq: "${addr}" },
-          asset: { standard: { _eq: "LSP7DigitalAsset" } },
-          balance: { _gt: "0" }
-        },
-        limit: 100
-      ) {
-        balance
-        asset {
-          id
-          lsp4TokenName
-          lsp4TokenSymbol
-          decimals
-          icons(limit: 1) { src }
-        }
-      }
-    }`) as Promise<{ Hold: Array<{
-      balance: string;
-      asset: {
-        id: string;
-        lsp4TokenName: string | null;
-        lsp4TokenSymbol: string | null;
-        decimals: number | null;
-        icons: Array<{ src: string }>;
-      };
-    }> }>,
-    queryIndexer(`{
-      Hold(
-        where: {
-          profile_id: { _eq: "${addr}" },
-          baseAsset: { standard: { _eq: "LSP8IdentifiableDigitalAsset" } },
-          balance: { _gt: "0" }
-        },
-        limit: 100
-      ) {
-        balance
-        token_id
-        baseAsset_id
-        baseAsset {
-          id
-          lsp4TokenName
-          lsp4TokenSymbol
-          icons(limit: 1) { src }
-        }
-      }
-    }`) as Promise<{ Hold: Array<{
-      balance: string;
-      token_id: string;
-      baseAsset_id: string;
-      baseAsset: {
-        id: string;
-        lsp4TokenName: string | null;
-        lsp4TokenSymbol: string | null;
-        icons: Array<{ src: string }>;
-      };
-    }> }>,
-  ]);
-
-  // Process LSP7 tokens
-  for (const hold of lsp7Data.Hold) {
-    if (!hold.asset) continue;
-    const decimals = hold.asset.decimals ?? 18;
-    tokens.push({
-      address: hold.asset.id,
-      name: hold.asset.lsp4TokenName || 'Unknown Token',
-      symbol: hold.asset.lsp4TokenSymbol || '???',
-      type: 'LSP7',
-      balance: hold.balance,
-      decimals,
-      selected: true,
-      iconUrl: hold.asset.icons?.[0]?.src,
-      transferAmount: formatUnits(BigInt(hold.balance), decimals),
-    });
+function DestinationCard({ destination, onUpdate, onRemove }: {
+  destination: Destination;
+  onUpdate: (update: Partial<Destination>) => void;
+  onRemove: () => void;
+}) {
+  const { check } = destination;
+  return (
+    <div className={`p-4 rounded-xl border text-sm ${
+      check.status === 'verified'
+        ? 'bg-green-500/10 border-green-500/30 text-green-400'
+        : check.status === 'invalid'
+          ? 'bg-red-500/10 border-red-500/30 text-red-400'
+          : check.status === 'checking'
+            ? 'bg-gray-800/50 border-gray-700 text-gray-400'
+            : 'bg-yellow-500/20 border-yellow-500/30 text-yellow-400'
+    }`}>
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <input
+            type="text"
+            value={destination.label}
+            onChange={(e) => onUpdate({ label: e.target.value })}
+            aria-label="Destination label"
+            className="w-full bg-transparent text-white font-medium focus:outline-none border-b border-transparent focus:border-pink-500"
+          />
+          <p className="text-xs text-gray-400 font-mono truncate">{destination.address}</p>
+        </div>
+        {destination.connected && (
+          <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-pink-500/20 text-pink-400 shrink-0">Extension</span>
+        )}
+        <button
+          onClick={onRemove}
+          className="text-sm text-gray-400 hover:text-white py-1.5 px-3 rounded-lg hover:bg-gray-700 transition-colors whitespace-nowrap"
+        >
+          Remove
+        </button>
+      </div>
+      <div className="mt-2 flex items-center gap-2 text-xs">
+        {check.status === 'checking' ? (
+          <svg className="animate-spin h-4 w-4 shrink-0" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+        ) : check.status === 'verified' ? (
+          <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+        )}
+        <span>{check.status === 'checking' ? 'Checking destination on-chain...' : check.message}</span>
+        {check.status === 'error' && (
+          <button onClick={() => onUpdate({ check: { status: 'checking' } })} className="ml-auto underline hover:opacity-80">
+            Retry
+          </button>
+        )}
+      </div>
+      {(check.status === 'eoa' || check.status === 'contract') && (
+        <p className="mt-1 text-yellow-400/70 text-xs">
+          Assets will be sent with <span className="font-mono">force: true</span> and won&apos;t be registered by a universal receiver. Double-check this is the address you want.
+        </p>
+      )}
+      {check.status === 'verified' && (
+        <label className="mt-2 flex items-start gap-2 text-xs text-green-300/80 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={destination.registerWithLSP1}
+            onChange={(e) => onUpdate({ registerWithLSP1: e.target.checked })}
+            className="mt-0.5 accent-pink-500"
+          />
+          <span>
+            Send with <span className="font-mono">force: false</span> so the profile&apos;s LSP1 universal receiver registers the assets
+          </span>
+        </label>
+      )}
+    </div>
+  );
+}
+
+function DestinationBadge({ destination }: { destination: Destination }) {
+  if (destination.check.status === 'verified') {
+    return (
+      <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-green-500/20 text-green-400 shrink-0">
+        {destinationForce(destination) ? 'UP' : 'UP · LSP1'}
+      </span>
+    );
+  }
+  if (destination.check.status === 'eoa' || destination.check.status === 'contract') {
+    return (
+      <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-yellow-500/20 text-yellow-400 shrink-0">
+        {destination.check.status === 'eoa' ? 'EOA' : 'Not a UP'}
+      </span>
+    );
   }
+  return null;
+}
 
-  // Process LSP8 tokens — group by collection, collect tokenIds
-  const collections = new Map<string, TokenAsset>();
-  for (const hold of lsp8Data.Hold) {
-    if (!hold.baseAsset) continue;
-    const collectionAddr = hold.baseAsset.id;
-    // Extract the bytes32 tokenId from the compound token_id ("collectionAddr-tokenId")
-    const tokenId = hold.token_id.slice(hold.token_id.indexOf('-') + 1);
-
-    if (collections.has(collectionAddr)) {
-      const existing = collections.get(collectionAddr)!;
-      existing.balance = String(parseInt(existing.balance) + 1);
-      existing.tokenIds?.push(tokenId);
-    } else {
-      collections.set(collectionAddr, {
-        address: collectionAddr,
-        name: hold.baseAsset.lsp4TokenName || 'Unknown NFT',
-        symbol: hold.baseAsset.lsp4TokenSymbol || '???',
-        type: 'LSP8',
-        balance: '1',
-        decimals: 0,
-        selected: true,
-        iconUrl: hold.baseAsset.icons?.[0]?.src,
-        tokenIds: [tokenId],
-        transferAmount: '1',
-      });
+function DestinationSelect({ destinations, value, onChange, disabled, exclude = [] }: {
+  destinations: Destination[];
+  value: string | undefined;
+  onChange: (destinationId: string) => void;
+  disabled?: boolean;
+  exclude?: Array<string | undefined>; // used by other portions of the same asset
+}) {
+  const selected = resolveDestination(destinations, value)?.id;
+  const excluded = exclude.map(id => resolveDestination(destinations, id)?.id);
+  return (
+    <select
+      value={selected}
+      onChange={(e) => onChange(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      disabled={disabled}
+      className="max-w-[10rem] bg-gray-900/60 border border-gray-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {destinations
+        .filter(d => d.id === selected || !excluded.includes(d.id))
+        .map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+    </select>
+  );
+}
+
+// An indexed image or icon, loaded through the network's IPFS gateway when it
+// is an ipfs:// URL. Shows an identicon of `seed` when there is none or it
+// fails to load. Hosts of next.config.js' remotePatterns go through the image
+// optimizer at `size` pixels; any other host is loaded as it is.
+function AssetImage({ src, gatewayUrl, seed, alt, size, className }: {
+  src: string | undefined;
+  gatewayUrl: string;
+  seed: string;
+  alt: string;
+  size: number;
+  className: string;
+}) {
+  const url = resolveImageUrl(src, gatewayUrl);
+  const [failedUrl, setFailedUrl] = useState<string>();
+  const fallback = useMemo(() => identicon(seed), [seed]);
+  const shown = url && url !== failedUrl ? url : fallback;
+  return (
+    <Image
+      src={shown}
+      alt={alt}
+      width={size}
+      height={size}
+      unoptimized={!isOptimizedImageUrl(shown)}
+      onError={() => setFailedUrl(url)}
+      className={className}
+    />
+  );
+}
+
+const FILTER_SELECT_CLASS = 'bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-pink-500';
+
+// Search, filters and sort order of the Step 3 list
+function AssetFilterBar({ filter, onChange }: {
+  filter: AssetFilter;
+  onChange: (filter: AssetFilter) => void;
+}) {
+  const update = (changes: Partial<AssetFilter>) => onChange({ ...filter, ...changes });
+  return (
+    <div className="flex flex-wrap gap-2 mb-3">
+      <input
+        type="search"
+        placeholder="Search name, symbol or address"
+        value={filter.query}
+        onChange={(e) => update({ query: e.target.value })}
+        className="flex-1 min-w-[12rem] bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-white text-sm placeholder-gray-500 focus:outline-none focus:border-pink-500 transition-colors"
+      />
+      <select
+        value={filter.standard}
+        onChange={(e) => update({ standard: e.target.value as AssetFilter['standard'] })}
+        aria-label="Standard"
+        className={FILTER_SELECT_CLASS}
+      >
+        <option value="all">All standards</option>
+        <option value="LSP7">LSP7</option>
+        <option value="LSP8">LSP8</option>
+        <option value="LYX">LYX</option>
+      </select>
+      <select
+        value={filter.state}
+        onChange={(e) => update({ state: e.target.value as AssetFilter['state'] })}
+        aria-label="Status"
+        className={FILTER_SELECT_CLASS}
+      >
+        <option value="all">Any status</option>
+        <option value="selected">Selected</option>
+        <option value="unselected">Not selected</option>
+        <option value="queued">Queued</option>
+        <option value="pending">In progress</option>
+        <option value="confirmed">Confirmed</option>
+        <option value="failed">Failed</option>
+      </select>
+      <select
+        value={filter.sort}
+        onChange={(e) => update({ sort: e.target.value as AssetFilter['sort'] })}
+        aria-label="Sort by"
+        className={FILTER_SELECT_CLASS}
+      >
+        <option value="default">Indexer order</option>
+        <option value="name">Name</option>
+        <option value="balance">Balance</option>
+        <option value="tokens">Token count</option>
+      </select>
+    </div>
+  );
+}
+
+function TokenListSettings({ network, lists, onSave }: {
+  network: Network;
+  lists: TokenLists;
+  onSave: (lists: TokenLists) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState({ blocked: '', allowed: '' });
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDraft({ blocked: lists.blocked.join('\n'), allowed: lists.allowed.join('\n') });
+    setError('');
+  }, [lists]);
+
+  const handleSave = () => {
+    const blocked = parseAddressList(draft.blocked);
+    const allowed = parseAddressList(draft.allowed);
+    if ('error' in blocked || 'error' in allowed) {
+      setError('error' in blocked ? `Blocklist: ${blocked.error}` : `Allowlist: ${(allowed as { error: string }).error}`);
+      return;
     }
-  }
-  tokens.push(...Array.from(collections.values()));
+    onSave({ blocked: blocked.addresses, allowed: allowed.addresses });
+  };
+
+  return (
+    <div className="mt-4">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between text-sm text-gray-400 hover:text-gray-300 transition-colors"
+      >
+        <span>Token lists ({lists.blocked.length} blocked · {lists.allowed.length} allowed)</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && (
+        <div className="mt-3 p-4 bg-gray-900/50 border border-gray-800 rounded-xl text-sm space-y-3">
+          <p className="text-xs text-gray-500">
+            Token contracts, one per line. Blocked tokens are hidden as spam; allowed ones are never hidden, whatever the heuristics say.
+            {' '}{BUNDLED_BLOCKLIST[network.id].length} more are blocked by the list bundled for {network.chainParams.chainName}. Stored in this browser only.
+          </p>
+          {(['blocked', 'allowed'] as const).map(key => (
+            <div key={key}>
+              <label className="block text-xs text-gray-400 mb-1">{key === 'blocked' ? 'Blocklist' : 'Allowlist'}</label>
+              <textarea
+                value={draft[key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                rows={3}
+                placeholder="0x…"
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 font-mono text-xs focus:outline-none focus:border-pink-500"
+              />
+            </div>
+          ))}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <button onClick={handleSave} className="text-xs font-semibold text-pink-400 hover:text-pink-300 transition-colors">Save</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Raw hex or a UTF-8 memo, with its size or what is wrong with it
+function TransferDataInput({ value, onChange, disabled }: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  const parsed = parseTransferData(value);
+  const bytes = 'data' in parsed ? (parsed.data.length - 2) / 2 : 0;
+  return (
+    <div className="flex-1 flex items-center gap-2 min-w-0" onClick={(e) => e.stopPropagation()}>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        placeholder="0x… or a memo"
+        className="flex-1 min-w-0 bg-gray-900/60 border border-gray-600 rounded-lg px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      />
+      {'error' in parsed ? (
+        <span className="text-xs text-red-400 shrink-0">{parsed.error}</span>
+      ) : bytes > 0 && (
+        <span className="text-xs text-gray-500 shrink-0">
+          {bytes} byte{bytes !== 1 ? 's' : ''}{/^0x/i.test(value.trim()) ? '' : ' · UTF-8'}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// What each destination will receive, shown before anything is signed
+function DestinationSummary({ destinations, legs }: { destinations: Destination[]; legs: TransferLeg[] }) {
+  return (
+    <div className="mt-4 space-y-2">
+      {destinations.map(destination => {
+        const own = legs.filter(l => l.to === destination.address);
+        const items = Array.from(new Set(own.map(l => assetKey(l.asset)))).map(key => {
+          const assetLegs = own.filter(l => assetKey(l.asset) === key);
+          const { symbol, type } = assetLegs[0].asset;
+          return type === 'LSP8' ? `${assetLegs.length} × ${symbol}` : `${assetLegs[0].amount || '0'} ${symbol}`;
+        });
+        const errors = own.filter(l => l.error);
+        const payloads = Array.from(new Set(own.filter(l => !l.error && l.data !== '0x').map(l => l.data)));
+        return (
+          <div key={destination.id} className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-white font-medium truncate">{destination.label}</span>
+              <span className="text-xs text-gray-500 font-mono">{shortenAddress(destination.address)}</span>
+              <span className="ml-auto text-xs text-gray-400 shrink-0">
+                {own.length} transfer{own.length !== 1 ? 's' : ''}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-gray-400">
+              {items.length > 0 ? items.join(' · ') : 'Nothing assigned'}
+            </p>
+            {payloads.length > 0 && (
+              <p className="mt-1 text-xs text-gray-500 break-all">Data: {payloads.map(formatTransferData).join(' · ')}</p>
+            )}
+            {errors.length > 0 && (
+              <p className="mt-1 text-xs text-red-400">
+                {errors.map(l => `${l.asset.symbol}: ${l.error}`).join(' · ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function NetworkSelector({ network, onSelect, locked }: {
+  network: Network;
+  onSelect: (id: NetworkId) => void;
+  locked: boolean;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-2 mb-8">
+      <div className="inline-flex rounded-xl border border-gray-700 p-1 text-sm">
+        {Object.values(NETWORKS).map(n => (
+          <button
+            key={n.id}
+            onClick={() => onSelect(n.id)}
+            disabled={locked && n.id !== network.id}
+            className={`px-4 py-1.5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+              n.id === network.id ? 'bg-pink-500/20 text-pink-400' : 'text-gray-400 hover:text-gray-300'
+            }`}
+          >
+            {n.chainParams.chainName}
+          </button>
+        ))}
+      </div>
+      {network.id === 'testnet' && (
+        <p className="text-xs text-yellow-400">Testnet rehearsal — LYXt and testnet tokens have no value.</p>
+      )}
+      {locked && (
+        <p className="text-xs text-gray-500">Remove the added accounts to change the network.</p>
+      )}
+    </div>
+  );
+}
+
+// Every transaction the Transfer button is about to send (see planReview)
+interface TransferReview {
+  plan: TransactionPlan;
+  labels: string[]; // per transaction
+  failed: Array<{ label: string; error: string }>; // legs that can't be sent
+  changes?: { added: string[]; removed: string[] }; // since the review the user last confirmed
+}
+
+// Shown while waiting for the wallet to switch to the next source account, or
+// back to the account / network it left mid-queue
+interface AccountPrompt {
+  source: SourceAccount;
+  provider: EthereumProvider;
+  controller: AbortController;
+  mismatch: WalletMismatch;
+  started: boolean; // the source's queue is under way; aborting stops it
+}
+
+function AccountPromptNotice({ prompt, network }: { prompt: AccountPrompt; network: Network }) {
+  return (
+    <div className="mt-4 p-4 bg-purple-500/10 border border-purple-500/30 rounded-lg text-sm">
+      <p className="text-purple-300 font-medium mb-1">
+        {prompt.started ? 'Queue paused — ' : ''}
+        {prompt.mismatch === 'account' ? 'switch accounts to continue' : `switch to ${network.chainParams.chainName} to continue`}
+      </p>
+      <p className="text-gray-400">
+        {prompt.mismatch === 'account' ? (
+          <>
+            {prompt.started && `${prompt.source.walletName} switched to another account. `}
+            Select <span className="text-white font-mono">{shortenAddress(prompt.source.address)}</span> in {prompt.source.walletName} to send its transfers.
+          </>
+        ) : (
+          <>{prompt.source.walletName} is on another network. Switch it back to {network.chainParams.chainName}.</>
+        )}
+        {' '}The queue continues once the wallet has switched; nothing is sent until then.
+      </p>
+      <div className="flex gap-3 mt-3">
+        <button
+          onClick={() => (prompt.mismatch === 'account'
+            ? requestAccountSwitch(prompt.provider)
+            : switchNetwork(prompt.provider, network)
+          ).catch(error => console.error('Failed to switch the wallet:', error))}
+          className="bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white font-semibold py-2 px-5 rounded-xl transition-colors"
+        >
+          {prompt.mismatch === 'account' ? 'Open wallet' : 'Switch network'}
+        </button>
+        <button
+          onClick={() => prompt.controller.abort()}
+          className="border border-gray-600 text-gray-400 font-semibold py-2 px-5 rounded-xl hover:bg-gray-800 transition-colors"
+        >
+          {prompt.started ? 'Stop the queue' : 'Skip this account'}
+        </button>
+      </div>
+    </div>
+  );
+}
 
-  return tokens;
+// Every transaction of a plan as it will be sent: target, decoded call and
+// estimated gas. `labels` name the assets of a plan made here; an imported
+// plan only shows what its calldata says.
+function TransactionReview({ plan, network, labels, statuses }: {
+  plan: TransactionPlan;
+  network: Network;
+  labels?: string[];
+  statuses?: PlanTransactionStatus[];
+}) {
+  return (
+    <div className="space-y-2 max-h-[28rem] overflow-y-auto pr-1">
+      {plan.transactions.map((tx, i) => {
+        const call = decodeTransaction(tx);
+        const status = statuses?.[i];
+        return (
+          <div key={i} className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg text-sm">
+            <div className="flex items-center gap-3">
+              <span className="text-gray-500 shrink-0">#{i + 1}</span>
+              <span className="text-white font-medium truncate">
+                {labels?.[i] ?? (call.standard ? `${call.standard} ${call.functionName}` : 'Unknown call')}
+              </span>
+              <span className="ml-auto text-xs text-gray-500 shrink-0">
+                {tx.gas ? `~${BigInt(tx.gas).toLocaleString()} gas` : 'gas not estimated'}
+              </span>
+              {status && status.status !== 'pending' && (
+                <TransferStatusIndicator status={{ from: tx.from, address: tx.to, ...status }} network={network} compact />
+              )}
+            </div>
+            <p className="mt-1 text-xs text-gray-400 break-all">
+              <span className="font-mono text-pink-300">{call.standard === 'LYX' ? 'value transfer' : call.functionName}</span>
+              {call.standard === 'LYX' ? ' to ' : ' on '}
+              <span className="font-mono text-gray-300">{tx.to}</span>
+            </p>
+            {call.transfers.map((transfer, j) => (
+              <div key={j} className="mt-2 pl-3 border-l border-gray-700 text-xs text-gray-500 space-y-0.5 break-all">
+                <p>from <span className="font-mono text-gray-300">{transfer.from}</span></p>
+                <p>to <span className="font-mono text-gray-300">{transfer.to}</span></p>
+                {transfer.amount !== undefined && (
+                  <p>
+                    {call.standard === 'LYX' ? 'value' : 'amount'}{' '}
+                    <span className="font-mono text-gray-300">
+                      {call.standard === 'LYX'
+                        ? `${formatUnits(transfer.amount, 18)} ${network.chainParams.nativeCurrency.symbol}`
+                        : transfer.amount.toString()}
+                    </span>
+                  </p>
+                )}
+                {transfer.tokenId && <p>tokenId <span className="font-mono text-gray-300">{transfer.tokenId}</span></p>}
+                {transfer.force !== undefined && <p>force <span className="font-mono text-gray-300">{String(transfer.force)}</span></p>}
+                {transfer.data && <p>data <span className="font-mono text-gray-300">{formatTransferData(transfer.data)}</span></p>}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
 }
 
 // --- Component ---
 
 export default function Home() {
   const [step, setStep] = useState(1);
+  // Read after mount, see savedSession
+  const [networkId, setNetworkId] = useState<NetworkId>(DEFAULT_NETWORK);
+  const [endpointOverrides, setEndpointOverrides] = useState<EndpointOverrides>({});
+  const network = useMemo(() => resolveNetwork(networkId, endpointOverrides), [networkId, endpointOverrides]);
 
   // Step 1: Source wallet (managed by wagmi — stays connected for signing)
   const { address: liveAddress, isConnected: isSourceConnected, chainId, connector } = useAccount();
@@ -287,23 +887,174 @@ export default function Home() {
   const { disconnect } = useDisconnect();
   const { switchChain } = useSwitchChain();
 
-  // Snapshot the source address and its provider when leaving Step 1
-  const [savedSourceAddress, setSavedSourceAddress] = useState('');
+  // The accounts to migrate, added one at a time in Step 1 (from one wallet
+  // or several), each with the provider of the wallet it was added from
+  const [sources, setSources] = useState<SourceAccount[]>([]);
+  // Raw provider and name of the wallet currently connected in Step 1
   const [sourceProvider, setSourceProvider] = useState<EthereumProvider | null>(null);
-  // In Step 1, use the live address; in Steps 2/3, use the snapshot
-  const sourceAddress = step === 1 ? liveAddress : (savedSourceAddress || liveAddress);
+  const [sourceWalletName, setSourceWalletName] = useState('');
 
-  // Step 2: Destination UP address (independent of wagmi)
-  const [upAddress, setUpAddress] = useState('');
-  const [upConnected, setUpConnected] = useState(false);
+  // Step 2: Destination profiles (independent of wagmi). Assets go to the
+  // first one unless assigned elsewhere in Step 3.
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [destinationInput, setDestinationInput] = useState('');
   const [upConnecting, setUpConnecting] = useState(false);
 
   // Step 3: Assets
   const [assets, setAssets] = useState<TokenAsset[]>([]);
   const [scanning, setScanning] = useState(false);
   const [scanError, setScanError] = useState('');
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [scanSummary, setScanSummary] = useState<Omit<ScanResult, 'tokens'> | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [indexerError, setIndexerError] = useState('');
+  const [verifyError, setVerifyError] = useState('');
+  const [manualTokenAddress, setManualTokenAddress] = useState('');
+  const [manualTokenSource, setManualTokenSource] = useState('');
+  const [manualTokenError, setManualTokenError] = useState('');
+  const [addingToken, setAddingToken] = useState(false);
+  const [simulations, setSimulations] = useState<SimulationResult[]>([]);
+  const [simulating, setSimulating] = useState(false);
+  const [lyxGasReserves, setLyxGasReserves] = useState<Record<string, bigint>>({}); // by assetKey
+  const [reservingGas, setReservingGas] = useState(false);
+  // Current gas price and the LYX balance of every source (by lowercase
+  // address), for the cost preview next to the Transfer button
+  const [feeData, setFeeData] = useState<{ gasPrice: bigint; balances: Record<string, bigint> } | null>(null);
+  // Source being funded from the connected profile, see handleTopUpGas
+  const [toppingUp, setToppingUp] = useState<string | null>(null);
+  const [topUpError, setTopUpError] = useState('');
+  const publicClient = usePublicClient({ chainId: network.chain.id });
+
+  // Check every newly added destination on-chain (and retried ones)
+  const pendingChecks = destinations.filter(d => d.check.status === 'checking').map(d => `${d.id}:${d.address}`).join(',');
+  useEffect(() => {
+    if (!pendingChecks || !publicClient) return;
+    let cancelled = false;
+    for (const entry of pendingChecks.split(',')) {
+      const [id, address] = entry.split(':');
+      checkDestination(publicClient, address)
+        .catch((error): Destination['check'] => ({
+          status: 'error',
+          message: `Could not check this address on-chain (${getErrorMessage(error, 'RPC request failed')}).`,
+        }))
+        .then(check => {
+          if (!cancelled) setDestinations(prev => prev.map(d => d.id === id ? { ...d, check } : d));
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingChecks, publicClient]);
   const [transferStatuses, setTransferStatuses] = useState<TransferStatus[]>([]);
   const [isTransferring, setIsTransferring] = useState(false);
+  // Send the transfers of each contract as transferBatch calls (fewer wallet prompts)
+  const [batchTransfers, setBatchTransfers] = useState(true);
+  // LSP1 data for every token transfer that doesn't set its own (hex or a memo)
+  const [transferData, setTransferData] = useState('');
+  // Sign all transfers of a source at once where the wallet supports EIP-5792
+  const [bundleCalls, setBundleCalls] = useState(true);
+  const [atomicSources, setAtomicSources] = useState<string[]>([]);
+  useEffect(() => {
+    if (step !== 3) return;
+    let cancelled = false;
+    Promise.all(sources.map(async source => (
+      source.provider && await supportsAtomicBatch(source.provider, source.address, network.chainParams.chainId)
+        ? [source.address]
+        : []
+    ))).then(results => {
+      if (!cancelled) setAtomicSources(results.flat());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, sources, network]);
+  // Refreshed whenever a run ends, as it spends gas (and maybe LYX)
+  useEffect(() => {
+    if (step !== 3 || isTransferring || !publicClient) return;
+    let cancelled = false;
+    Promise.all([
+      publicClient.getGasPrice(),
+      ...sources.map(source => publicClient.getBalance({ address: source.address as Address })),
+    ]).then(([gasPrice, ...balances]) => {
+      if (cancelled) return;
+      setFeeData({ gasPrice, balances: Object.fromEntries(sources.map((s, i) => [s.address.toLowerCase(), balances[i]])) });
+    }).catch(error => {
+      console.error('Failed to fetch fee data:', error);
+      if (!cancelled) setFeeData(null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, isTransferring, sources, publicClient]);
+  // Shown while waiting for the wallet to switch to the next source account
+  const [accountPrompt, setAccountPrompt] = useState<AccountPrompt | null>(null);
+  const [expandedCollections, setExpandedCollections] = useState<string[]>([]);
+  // Blocklist / allowlist of token contracts, read after mount like the history
+  const [tokenLists, setTokenLists] = useState<TokenLists>(EMPTY_TOKEN_LISTS);
+  const [showHiddenAssets, setShowHiddenAssets] = useState(false);
+  const [assetFilter, setAssetFilter] = useState<AssetFilter>(DEFAULT_ASSET_FILTER);
+  // Watch-only preview: sources (and destinations) entered by address, with
+  // no wallet connected, so nothing can be signed
+  const [watchOnly, setWatchOnly] = useState(false);
+  const [watchInput, setWatchInput] = useState({ sources: '', destinations: '' });
+  const [watchError, setWatchError] = useState('');
+  // Selection from a shared link, applied whenever its sources are scanned
+  const [sharedPlan, setSharedPlan] = useState<SharedPlan | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Review step, before any wallet prompt
+  const [review, setReview] = useState<TransferReview | null>(null);
+  // An exported plan loaded in Step 1 to be signed with the connected wallet
+  const [importedPlan, setImportedPlan] = useState<TransactionPlan | null>(null);
+  const [planStatuses, setPlanStatuses] = useState<PlanTransactionStatus[]>([]);
+  const [planError, setPlanError] = useState('');
+  const [signingPlan, setSigningPlan] = useState(false);
+
+  // Unfinished migration from an earlier visit. Read after mount so the
+  // server render and the first client render match.
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  // Reports of past migrations; the current one is updated after every run
+  const [history, setHistory] = useState<MigrationReport[]>([]);
+  const [migrationId, setMigrationId] = useState('');
+  useEffect(() => {
+    const session = loadSession();
+    setSavedSession(session);
+    // A shared link or an unfinished migration opens on its own network
+    const shared = parseShareParams(new URLSearchParams(window.location.search));
+    const sharedNetwork = shared && 'plan' in shared ? shared.plan.network ?? DEFAULT_NETWORK : undefined;
+    setNetworkId(sharedNetwork ?? session?.network ?? loadNetworkId());
+    if (shared && 'error' in shared) setWatchError(`The shared link can't be read: ${shared.error}`);
+    if (shared && 'plan' in shared) {
+      setSharedPlan(shared.plan);
+      setWatchInput({ sources: shared.plan.sources.join(', '), destinations: shared.plan.destinations.join(', ') });
+      setDestinations(shared.plan.destinations.reduce<Destination[]>((prev, address) => [...prev, createDestination(address, false, prev)], []));
+    }
+    setEndpointOverrides(loadEndpointOverrides());
+    setHistory(loadHistory());
+    setTokenLists(loadTokenLists());
+  }, []);
+
+  // Persist Step 3 (plan, amounts, statuses and tx hashes) on every change so
+  // a reload or wallet crash mid-transfer can be resumed
+  useEffect(() => {
+    if (step !== 3 || watchOnly || sources.length === 0 || destinations.length === 0 || assets.length === 0) return;
+    if (isSessionComplete(transferStatuses)) {
+      clearSession();
+      return;
+    }
+    saveSession({ migrationId, network: networkId, sources, destinations, assets, transferStatuses, transferData });
+  }, [step, watchOnly, migrationId, networkId, sources, destinations, assets, transferStatuses, transferData]);
+
+  // A preview keeps its selection in the URL, so a reload or a copied address
+  // bar opens it again
+  useEffect(() => {
+    if (step !== 3 || !watchOnly) return;
+    window.history.replaceState(null, '', buildShareUrl());
+  }, [step, watchOnly, networkId, sources, destinations, assets]);
+
+  // A review belongs to the selection it was made from
+  useEffect(() => {
+    if (step !== 3) setReview(null);
+  }, [step]);
 
   // EIP-6963 wallet discovery (filter out UP extension)
   const allProviders = useEIP6963Providers();
@@ -313,7 +1064,7 @@ export default function Home() {
 
   // Network state
   const [switchingNetwork, setSwitchingNetwork] = useState(false);
-  const isOnLukso = chainId === lukso.id;
+  const isOnLukso = chainId === network.chain.id;
 
   // Detect if connected wallet in Step 1 is a UP wallet
   const isSourceUP = isSourceConnected && connector
@@ -325,16 +1076,19 @@ export default function Home() {
 
   // --- Step 1 handlers ---
 
+  // Accounts that were already added stay in the list, so another wallet can
+  // be connected next
   const handleDisconnectSource = () => {
     disconnect();
     setSourceProvider(null);
-    setSavedSourceAddress('');
+    setSourceWalletName('');
   };
 
   const handleConnectWallet = (wallet: EIP6963ProviderDetail) => {
     // Save the raw provider so we can use it directly for transactions later
     // (prevents the UP extension from hijacking transactions in Step 3)
     setSourceProvider(wallet.provider);
+    setSourceWalletName(wallet.info.name);
     connect({
       connector: injected({
         target() {
@@ -350,37 +1104,87 @@ export default function Home() {
     });
   };
 
+  // Use the provider pinned in Step 1, or fall back to the Wagmi connector (auto-reconnect)
+  const resolveSourceProvider = async (): Promise<EthereumProvider | null> => {
+    if (sourceProvider) return sourceProvider;
+    if (!connector) return null;
+    try {
+      const provider = await connector.getProvider() as EthereumProvider;
+      setSourceProvider(provider);
+      return provider;
+    } catch (error) {
+      console.error('Failed to get provider from connector:', error);
+      return null;
+    }
+  };
+
+  const isLiveSourceAdded = sources.some(s => isSameAccount(s.address, liveAddress));
+
+  // Add the account the connected wallet currently exposes
+  const addCurrentSource = async () => {
+    if (!liveAddress || isLiveSourceAdded) return;
+    const provider = await resolveSourceProvider();
+    const walletName = sourceWalletName || connector?.name || 'Wallet';
+    setSources(prev => [...prev, { address: liveAddress, walletName, provider: provider ?? undefined }]);
+  };
+
+  const removeSource = (address: string) => {
+    setSources(prev => prev.filter(s => !isSameAccount(s.address, address)));
+  };
+
+  const handleSwitchAccount = async () => {
+    const provider = await resolveSourceProvider();
+    if (!provider) return;
+    try {
+      await requestAccountSwitch(provider);
+    } catch (error) {
+      console.error('Failed to open the account picker:', error);
+    }
+  };
+
+  const handleContinueToDestinations = async () => {
+    if (isSourceConnected && isOnLukso && !isSourceUP) await addCurrentSource();
+    setStep(2);
+  };
+
+  // Through the pinned provider, which may not be window.ethereum (EIP-6963)
   const handleSwitchToLukso = useCallback(async () => {
     setSwitchingNetwork(true);
     try {
-      const ethereum = getEthereumProvider();
-      if (!ethereum) return;
-      try {
-        await ethereum.request({
-          method: 'wallet_switchEthereumChain',
-          params: [{ chainId: LUKSO_CHAIN_PARAMS.chainId }],
-        });
-      } catch (switchError: unknown) {
-        const error = switchError as { code?: number };
-        if (error.code === 4902) {
-          await ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [LUKSO_CHAIN_PARAMS],
-          });
-        } else {
-          throw switchError;
-        }
-      }
+      const provider = await resolveSourceProvider();
+      if (provider) await switchNetwork(provider, network);
     } catch (error) {
       console.error('Failed to switch/add network:', error);
     } finally {
       setSwitchingNetwork(false);
     }
-  }, []);
+  }, [network, resolveSourceProvider]);
+
+  // Sources and scanned assets belong to one chain, so the network can only
+  // change before the first account is added
+  const handleSelectNetwork = (id: NetworkId) => {
+    if (sources.length > 0) return;
+    saveNetworkId(id);
+    setNetworkId(id);
+  };
 
   // --- Step 2 handlers ---
 
-  const handleConnectUPExtension = useCallback(async () => {
+  // Add a destination after checking it isn't the source or already listed.
+  // Returns an error message instead of adding it.
+  const addDestination = (address: string, connected: boolean): string | null => {
+    if (!isAddress(address)) return 'Enter a valid address.';
+    if (sources.some(s => isSameAccount(s.address, address))) {
+      return 'This is one of your source wallets. Please use a different Universal Profile.';
+    }
+    if (destinations.some(d => d.address.toLowerCase() === address.toLowerCase())) {
+      return 'This address is already a destination.';
+    }
+    setDestinations(prev => [...prev, createDestination(address, connected, prev)]);
+    return null;
+  };
+
+  const handleConnectUPExtension = async () => {
     setUpConnecting(true);
     setUpError('');
     try {
@@ -395,15 +1199,7 @@ export default function Home() {
         method: 'eth_requestAccounts',
       }) as string[];
       if (accounts && accounts.length > 0) {
-        const upAddr = accounts[0];
-        // Prevent connecting the same address as the source wallet
-        if (upAddr.toLowerCase() === savedSourceAddress.toLowerCase()) {
-          setUpError('This is the same address as your source wallet. Please connect a different Universal Profile.');
-          return;
-        }
-        setUpAddress(upAddr);
-        setUpConnected(true);
-        setUpError('');
+        setUpError(addDestination(accounts[0], true) ?? '');
       }
     } catch (error) {
       console.error('Failed to connect UP Extension:', error);
@@ -411,172 +1207,708 @@ export default function Home() {
     } finally {
       setUpConnecting(false);
     }
-  }, [savedSourceAddress]);
+  };
+
+  const handleAddDestination = () => {
+    const error = addDestination(destinationInput.trim(), false);
+    setUpError(error ?? '');
+    if (!error) setDestinationInput('');
+  };
 
-  const handleDisconnectUP = () => {
-    setUpAddress('');
-    setUpConnected(false);
+  const updateDestination = (id: string, update: Partial<Destination>) => {
+    setDestinations(prev => prev.map(d => d.id === id ? { ...d, ...update } : d));
+  };
+
+  const removeDestination = (id: string) => {
+    setDestinations(prev => prev.filter(d => d.id !== id));
   };
 
   // --- Step 3 handlers ---
 
-  // Check if source and destination are the same
-  const isSameAddress = upAddress && sourceAddress
-    ? upAddress.toLowerCase() === sourceAddress.toLowerCase()
-    : false;
+  // Check if a source is one of the destinations (e.g. after adding accounts in Step 1)
+  const isSameAddress = destinations.some(d => sources.some(s => isSameAccount(s.address, d.address)));
+
+  const canScan = sources.length > 0 && destinations.length > 0 && !scanning && !isSameAddress
+    && destinations.every(d => d.check.status !== 'checking');
 
-  const handleFindAssets = async () => {
-    if (!sourceAddress || !upAddress) return;
-    if (isSameAddress) {
+  // Scan the sources (by default the ones added in Step 1). A watch-only
+  // preview passes its own, as state doesn't update until the next render.
+  const handleFindAssets = async ({ sources: scanSources, destinations: scanDestinations } = { sources, destinations }) => {
+    if (scanSources.length === 0) return;
+    if (scanDestinations.some(d => scanSources.some(s => isSameAccount(s.address, d.address)))) {
       setScanError('Source and destination addresses are the same. Please use different wallets.');
       return;
     }
     setScanning(true);
     setScanError('');
+    setIndexerError('');
+    setVerifyError('');
+    setScanProgress({ lsp7: 0, lsp8: 0 });
     try {
-      const tokens = await fetchTokensForAddress(sourceAddress);
+      let tokens: TokenAsset[] = [];
+      let holdCount = 0;
+      let scanned = 0;
+      const incomplete: string[] = [];
+      let found: ScanProgress = { lsp7: 0, lsp8: 0 };
+
+      // One source after another; the progress counts add up across sources
+      for (const source of scanSources) {
+        let sourceTokens: TokenAsset[] = [];
+        const offset = found;
+        try {
+          const result = await fetchTokensForAddress(source.address, progress => {
+            found = { lsp7: offset.lsp7 + progress.lsp7, lsp8: offset.lsp8 + progress.lsp8 };
+            setScanProgress(found);
+          }, network);
+          sourceTokens = applySpamFilter(result.tokens, tokenLists, network.id);
+          holdCount += result.holdCount;
+          scanned++;
+          if (result.incomplete) incomplete.push(result.incomplete);
+        } catch (error) {
+          // Continue to Step 3 anyway so assets can be added by contract address
+          console.error(`Failed to scan assets of ${source.address}:`, error);
+          setIndexerError(getErrorMessage(error, 'Indexer request failed'));
+        }
+
+        if (publicClient) {
+          try {
+            const lyxBalance = await publicClient.getBalance({ address: source.address as Address });
+            if (lyxBalance > BigInt(0)) sourceTokens = [createNativeLyxAsset(source.address, lyxBalance), ...sourceTokens];
+          } catch (error) {
+            console.error('Failed to fetch LYX balance:', error);
+          }
+        }
+
+        if (publicClient && sourceTokens.some(t => t.type !== 'LYX')) {
+          setVerifying(true);
+          try {
+            sourceTokens = await verifyAssetsOnChain(publicClient, source.address, sourceTokens);
+          } catch (error) {
+            console.error('Failed to verify assets on-chain:', error);
+            setVerifyError(getErrorMessage(error, 'RPC request failed'));
+          }
+          setVerifying(false);
+        }
+        tokens = [...tokens, ...sourceTokens];
+      }
+      setScanSummary(scanned > 0 ? { holdCount, incomplete: incomplete.join(' ') || undefined } : null);
+      if (sharedPlan) tokens = applySharedPlan(tokens, sharedPlan, scanDestinations);
+
       setAssets(tokens);
+      setMigrationId(createMigrationId());
       setTransferStatuses([]);
+      setExpandedCollections([]);
+      setManualTokenAddress('');
+      setManualTokenError('');
+      setManualTokenSource(scanSources[0].address);
+      setSimulations([]);
+      setLyxGasReserves({});
       setStep(3);
-    } catch (error) {
-      console.error('Failed to scan assets:', error);
-      setScanError('Failed to scan assets. Please try again.');
+      runSimulation(tokens, scanDestinations);
     } finally {
       setScanning(false);
+      setScanProgress(null);
+      setVerifying(false);
     }
   };
 
-  const toggleAsset = (address: string) => {
-    setAssets(prev => prev.map(a =>
-      a.address === address ? { ...a, selected: !a.selected } : a
-    ));
+  // Dry-run the planned transfers of the given assets and deselect whatever
+  // would revert. Results for other assets are kept.
+  const runSimulation = async (tokens: TokenAsset[], targets = destinations) => {
+    if (!publicClient || targets.length === 0) return;
+    const planned = planTransfers(tokens, targets, transferData);
+    if (planned.length === 0) return;
+    setSimulating(true);
+    try {
+      const results = await simulateTransfers(publicClient, planned);
+      const simulated = new Set(results.map(transferKey));
+      setSimulations(prev => [...prev.filter(r => !simulated.has(transferKey(r))), ...results]);
+      setAssets(prev => deselectReverting(prev, results));
+    } catch (error) {
+      console.error('Failed to simulate transfers:', error);
+    } finally {
+      setSimulating(false);
+    }
   };
 
-  const selectAll = () => {
-    setAssets(prev => prev.map(a => ({ ...a, selected: true })));
+  const handleAddToken = async () => {
+    const source = sources.find(s => isSameAccount(s.address, manualTokenSource)) ?? sources[0];
+    if (!publicClient || !source) return;
+    const tokenAddress = manualTokenAddress.trim();
+    if (!isAddress(tokenAddress)) {
+      setManualTokenError('Enter a valid contract address.');
+      return;
+    }
+    if (assets.some(a => isSameAccount(a.source, source.address) && isSameAccount(a.address, tokenAddress))) {
+      setManualTokenError('This token is already in the list.');
+      return;
+    }
+    setAddingToken(true);
+    setManualTokenError('');
+    try {
+      const token = await discoverTokenOnChain(publicClient, source.address, tokenAddress);
+      if (token.balance === '0') {
+        setManualTokenError(`${token.name} (${token.symbol}) was found, but this wallet doesn't hold any.`);
+        return;
+      }
+      setAssets(prev => [...prev, token]);
+      setManualTokenAddress('');
+      runSimulation([token]);
+    } catch (error) {
+      console.error('Failed to discover token:', error);
+      setManualTokenError(getErrorMessage(error, 'Could not read this contract.'));
+    } finally {
+      setAddingToken(false);
+    }
   };
 
-  const deselectAll = () => {
-    setAssets(prev => prev.map(a => ({ ...a, selected: false })));
-  };
+  // Assets are identified by assetKey: the same token can be held by several sources
 
-  const updateTransferAmount = (address: string, amount: string) => {
-    setAssets(prev => prev.map(a =>
-      a.address === address ? { ...a, transferAmount: amount } : a
-    ));
+  // Toggling an LSP8 collection selects or clears all of its token IDs
+  const toggleAsset = (key: string) => {
+    setAssets(prev => prev.map(a => {
+      if (assetKey(a) !== key) return a;
+      const selected = !a.selected;
+      return a.type === 'LSP8'
+        ? { ...a, selected, selectedTokenIds: selected ? [...(a.tokenIds ?? [])] : [] }
+        : { ...a, selected };
+    }));
   };
 
-  const setMaxAmount = (address: string) => {
+  const toggleTokenId = (key: string, tokenId: string) => {
     setAssets(prev => prev.map(a => {
-      if (a.address !== address) return a;
-      return { ...a, transferAmount: formatUnits(BigInt(a.balance), a.decimals) };
+      if (assetKey(a) !== key) return a;
+      const current = a.selectedTokenIds ?? [];
+      const selectedTokenIds = current.includes(tokenId)
+        ? current.filter(id => id !== tokenId)
+        : (a.tokenIds ?? []).filter(id => id === tokenId || current.includes(id));
+      return { ...a, selectedTokenIds, selected: selectedTokenIds.length > 0 };
     }));
   };
 
-  // Send transaction via a specific provider (bypasses Wagmi to avoid UP hijack)
-  const sendViaProvider = async (provider: EthereumProvider, from: string, to: string, data: string): Promise<string> => {
-    const txHash = await provider.request({
-      method: 'eth_sendTransaction',
-      params: [{ from, to, data }],
-    }) as string;
-    return txHash;
+  const toggleExpanded = (key: string) => {
+    setExpandedCollections(prev =>
+      prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]
+    );
   };
 
-  const handleTransferAll = async () => {
-    // Resolve provider: use saved one, or fall back to Wagmi connector
-    let provider = sourceProvider;
-    if (!provider && connector) {
-      try {
-        provider = await connector.getProvider() as EthereumProvider;
-        setSourceProvider(provider);
-      } catch {
-        // ignore
-      }
-    }
-    if (!provider || !sourceAddress || !upAddress) return;
+  // Block or allow a token contract and re-check the list against it
+  const handleUpdateTokenLists = (lists: TokenLists) => {
+    saveTokenLists(lists);
+    setTokenLists(lists);
+    setAssets(prev => applySpamFilter(prev, lists, network.id));
+  };
 
-    const selectedAssets = assets.filter(a => a.selected);
-    if (selectedAssets.length === 0) return;
+  const markAsset = (asset: TokenAsset, list: keyof TokenLists) => {
+    handleUpdateTokenLists(markToken(tokenLists, asset.address, list));
+  };
 
-    setIsTransferring(true);
-    setTransferStatuses(selectedAssets.map(a => ({
-      address: a.address,
-      status: 'pending',
+  // Bulk selection acts on the assets the list shows. LYX stays opt-in: it
+  // needs an amount that leaves enough for gas.
+  const selectListed = () => {
+    const keys = new Set(listedAssets.filter(a => a.type !== 'LYX').map(assetKey));
+    setAssets(prev => prev.map(a => !keys.has(assetKey(a)) ? a : ({
+      ...a,
+      selected: true,
+      ...(a.type === 'LSP8' ? { selectedTokenIds: [...(a.tokenIds ?? [])] } : {}),
     })));
+  };
 
-    for (const asset of selectedAssets) {
-      setTransferStatuses(prev => prev.map(s =>
-        s.address === asset.address ? { ...s, status: 'transferring' } : s
-      ));
+  const deselectListed = () => {
+    const keys = new Set(listedAssets.map(assetKey));
+    setAssets(prev => prev.map(a => !keys.has(assetKey(a)) ? a : ({
+      ...a,
+      selected: false,
+      ...(a.type === 'LSP8' ? { selectedTokenIds: [] } : {}),
+    })));
+  };
 
-      try {
-        if (asset.type === 'LSP7') {
-          let rawAmount: bigint;
-          try {
-            rawAmount = parseUnits(asset.transferAmount, asset.decimals);
-          } catch {
-            setTransferStatuses(prev => prev.map(s =>
-              s.address === asset.address ? { ...s, status: 'error', error: 'Invalid amount' } : s
-            ));
-            continue;
-          }
-          if (rawAmount <= BigInt(0)) {
-            setTransferStatuses(prev => prev.map(s =>
-              s.address === asset.address ? { ...s, status: 'error', error: 'Amount must be greater than 0' } : s
-            ));
-            continue;
-          }
-          if (rawAmount > BigInt(asset.balance)) {
-            setTransferStatuses(prev => prev.map(s =>
-              s.address === asset.address ? { ...s, status: 'error', error: 'Amount exceeds balance' } : s
-            ));
-            continue;
-          }
+  // undefined falls back to the migration's data
+  const updateAssetData = (key: string, data: string | undefined) => {
+    setAssets(prev => prev.map(a => assetKey(a) === key ? { ...a, transferData: data } : a));
+  };
 
-          const data = encodeFunctionData({
-            abi: LSP7_TRANSFER_ABI,
-            functionName: 'transfer',
-            args: [sourceAddress as Address, upAddress as Address, rawAmount, true, '0x'],
-          });
+  const updateTransferAmount = (key: string, amount: string) => {
+    setAssets(prev => prev.map(a =>
+      assetKey(a) === key ? { ...a, transferAmount: amount } : a
+    ));
+  };
 
-          const txHash = await sendViaProvider(provider, sourceAddress, asset.address, data);
+  // The balance minus whatever is split off to other destinations
+  const setMaxAmount = (key: string) => {
+    setAssets(prev => prev.map(a => {
+      if (assetKey(a) !== key) return a;
+      const max = BigInt(a.balance) - splitTotal(a);
+      return { ...a, transferAmount: formatUnits(max > BigInt(0) ? max : BigInt(0), a.decimals) };
+    }));
+  };
 
-          setTransferStatuses(prev => prev.map(s =>
-            s.address === asset.address ? { ...s, status: 'success', txHash } : s
-          ));
+  // Route an asset (its main amount, or all of its LSP8 token IDs without an override)
+  const updateAssetDestination = (key: string, destinationId: string) => {
+    setAssets(prev => prev.map(a => assetKey(a) === key ? { ...a, destinationId } : a));
+  };
 
-        } else if (asset.type === 'LSP8' && asset.tokenIds && asset.tokenIds.length > 0) {
-          let lastTxHash = '';
-          for (const tokenId of asset.tokenIds) {
-            const data = encodeFunctionData({
-              abi: LSP8_TRANSFER_ABI,
-              functionName: 'transfer',
-              args: [sourceAddress as Address, upAddress as Address, tokenId as `0x${string}`, true, '0x'],
-            });
+  const updateTokenDestination = (key: string, tokenId: string, destinationId: string) => {
+    setAssets(prev => prev.map(a =>
+      assetKey(a) === key ? { ...a, tokenDestinations: { ...a.tokenDestinations, [tokenId]: destinationId } } : a
+    ));
+  };
 
-            lastTxHash = await sendViaProvider(provider, sourceAddress, asset.address, data);
-          }
+  // Split part of an LSP7 / LYX amount off to a destination that isn't used yet
+  const addSplit = (key: string) => {
+    setAssets(prev => prev.map(a => {
+      if (assetKey(a) !== key) return a;
+      const used = [a.destinationId, ...(a.amountSplits ?? []).map(s => s.destinationId)]
+        .map(id => resolveDestination(destinations, id)?.id);
+      const next = destinations.find(d => !used.includes(d.id));
+      return next ? { ...a, amountSplits: [...(a.amountSplits ?? []), { destinationId: next.id, amount: '' }] } : a;
+    }));
+  };
+
+  const updateSplit = (key: string, index: number, update: Partial<AmountSplit>) => {
+    setAssets(prev => prev.map(a => assetKey(a) !== key ? a : {
+      ...a,
+      amountSplits: (a.amountSplits ?? []).map((s, i) => i === index ? { ...s, ...update } : s),
+    }));
+  };
+
+  const removeSplit = (key: string, index: number) => {
+    setAssets(prev => prev.map(a => assetKey(a) !== key ? a : {
+      ...a,
+      amountSplits: (a.amountSplits ?? []).filter((_, i) => i !== index),
+    }));
+  };
+
+  // Simulated gas of a transfer, or the default when it has no estimate
+  const transferGas = (ref: TransferRef): bigint => {
+    const simulation = simulations.find(r => transferKey(r) === transferKey(ref));
+    return simulation?.gas ? BigInt(simulation.gas) : DEFAULT_TRANSFER_GAS;
+  };
+  const legGas = (leg: TransferLeg) => (leg.asset.type === 'LYX' ? DEFAULT_LYX_TRANSFER_GAS : transferGas(legRef(leg)));
+
+  // Deselect transfers until every source's LYX covers its gas
+  const trimSelection = () => {
+    if (!feeData) return;
+    setAssets(prev => trimToBalance(prev, destinations, legGas, feeData.gasPrice, feeData.balances, transferData));
+  };
+
+  // Fill the LYX amount with the balance minus the gas the queued token
+  // transfers (simulated estimates where available) and the LYX transfer need.
+  // Each source pays for its own transfers.
+  const setLyxMaxMinusGas = async (lyx: TokenAsset) => {
+    const lyxDestination = resolveDestination(destinations, lyx.destinationId);
+    if (!lyxDestination || !publicClient) return;
+    setReservingGas(true);
+    try {
+      const sourceAssets = assets.filter(a => isSameAccount(a.source, lyx.source));
+      const tokenTransferGas = planTransfers(sourceAssets, destinations, transferData).map(transferGas);
+      const [gasPrice, lyxTransferGas] = await Promise.all([
+        publicClient.getGasPrice(),
+        publicClient
+          .estimateGas({ account: lyx.source as Address, to: lyxDestination.address as Address, value: BigInt(1) })
+          .catch(() => DEFAULT_LYX_TRANSFER_GAS),
+      ]);
+      // Split-off LYX is sent in transfers of its own
+      const splitGas = (lyx.amountSplits ?? []).map(() => lyxTransferGas);
+      const reserve = estimateGasReserve([...tokenTransferGas, ...splitGas], lyxTransferGas, gasPrice);
+      const max = BigInt(lyx.balance) - reserve - splitTotal(lyx);
+      setLyxGasReserves(prev => ({ ...prev, [assetKey(lyx)]: reserve }));
+      updateTransferAmount(assetKey(lyx), max > BigInt(0) ? formatUnits(max, lyx.decimals) : '0');
+    } catch (error) {
+      console.error('Failed to estimate gas reserve:', error);
+    } finally {
+      setReservingGas(false);
+    }
+  };
+
+  // Send the LYX a source is missing from the profile connected through the UP
+  // extension, then re-read the source's balance so the Transfer button unlocks
+  const handleTopUpGas = async (cost: SourceCost) => {
+    const profile = destinations.find(d => d.connected);
+    const luksoProvider = getLuksoProvider();
+    if (!profile || !luksoProvider || !publicClient) return;
+    setToppingUp(cost.source);
+    setTopUpError('');
+    try {
+      const mismatch = await getWalletMismatch(luksoProvider, profile.address, network.chain.id);
+      if (mismatch === 'account') throw new Error(`Select ${shortenAddress(profile.address)} in the UP extension first.`);
+      if (mismatch === 'chain') await switchNetwork(luksoProvider, network);
+      const txHash = await sendViaProvider(luksoProvider, profile.address, cost.source, '0x', cost.missing);
+      if (await waitForReceipt(luksoProvider, txHash) === 'reverted') throw new Error('The top-up transaction reverted.');
+      const balance = await publicClient.getBalance({ address: cost.source as Address });
+      setFeeData(prev => prev && { ...prev, balances: { ...prev.balances, [cost.source.toLowerCase()]: balance } });
+      setAssets(prev => prev.map(a => a.type === 'LYX' && isSameAccount(a.source, cost.source) ? { ...a, balance: balance.toString() } : a));
+    } catch (error) {
+      console.error('Failed to top up gas:', error);
+      setTopUpError(getErrorMessage(error, 'Top-up failed'));
+    } finally {
+      setToppingUp(null);
+    }
+  };
+
+  const updateTransferStatus = (ref: TransferRef, update: Partial<TransferStatus>) => {
+    setTransferStatuses(prev => prev.map(s => transferKey(s) === transferKey(ref) ? { ...s, ...update } : s));
+  };
+
+  // Make sure the pinned provider exposes the source's account on `chainId`
+  // (the selected network's) before it is asked to sign, and pause with a
+  // prompt until it does. Resolves false if the user skips the source or
+  // stops the queue.
+  const confirmWalletContext = async (
+    provider: EthereumProvider,
+    source: SourceAccount,
+    started: boolean,
+    chainId = network.chain.id,
+  ): Promise<boolean> => {
+    let mismatch: WalletMismatch | null;
+    try {
+      mismatch = await getWalletMismatch(provider, source.address, chainId);
+    } catch (error) {
+      console.error('Failed to read the wallet account and network:', error);
+      return false;
+    }
+    if (!mismatch) return true;
+    const controller = new AbortController();
+    setAccountPrompt({ source, provider, controller, mismatch, started });
+    try {
+      await waitForWalletContext(provider, source.address, chainId, controller.signal, current => {
+        setAccountPrompt(prev => prev && prev.mismatch !== current ? { ...prev, mismatch: current } : prev);
+      });
+      return true;
+    } catch {
+      return false;
+    } finally {
+      setAccountPrompt(null);
+    }
+  };
+
+  // Send `legs` (see planReview), source by source
+  const handleTransferAll = async (legs: TransferLeg[]) => {
+    if (sources.length === 0 || destinations.length === 0 || legs.length === 0) return;
 
-          setTransferStatuses(prev => prev.map(s =>
-            s.address === asset.address ? { ...s, status: 'success', txHash: lastTxHash } : s
-          ));
+    setIsTransferring(true);
+    let statuses = mergeTransferStatuses(transferStatuses, initialTransferStatuses(legs));
+    setTransferStatuses(statuses);
+    const onStatus = (ref: TransferRef, update: Partial<TransferStatus>) => {
+      statuses = statuses.map(s => transferKey(s) === transferKey(ref) ? { ...s, ...update } : s);
+      updateTransferStatus(ref, update);
+    };
+
+    try {
+      // Each source signs through the wallet it was added from (or the connected
+      // one after a resume), one account at a time. The wallet's account and
+      // network are checked again before every transaction.
+      let stopped = false;
+      for (const group of groupLegsBySource(legs)) {
+        if (stopped) {
+          for (const ref of initialTransferStatuses(group.legs)) onStatus(ref, { status: 'error', error: QUEUE_STOPPED_ERROR });
+          continue;
+        }
+        const source = sources.find(s => isSameAccount(s.address, group.source))
+          ?? { address: group.source, walletName: 'Wallet' };
+        const provider = source.provider ?? await resolveSourceProvider();
+        if (!provider || !(await confirmWalletContext(provider, source, false))) {
+          for (const ref of initialTransferStatuses(group.legs)) onStatus(ref, { status: 'error', error: ACCOUNT_SKIPPED_ERROR });
+          continue;
+        }
+        const beforeSend = async () => {
+          stopped = !(await confirmWalletContext(provider, source, true));
+          return !stopped;
+        };
+        const options = { provider, legs: group.legs, onStatus, batch: batchTransfers ? { gasFor: legGas } : undefined, beforeSend };
+        // Checked again now that the wallet is on this account
+        if (bundleCalls && await supportsAtomicBatch(provider, source.address, network.chainParams.chainId)) {
+          await executeBundle({ ...options, chainId: network.chainParams.chainId });
+        } else {
+          await executeTransfers(options);
         }
-      } catch (error: unknown) {
-        const err = error as { shortMessage?: string; message?: string };
-        setTransferStatuses(prev => prev.map(s =>
-          s.address === asset.address
-            ? { ...s, status: 'error', error: err.shortMessage || err.message || 'Transfer failed' }
-            : s
-        ));
       }
+    } catch (error: unknown) {
+      console.error('Transfer queue failed:', error);
+      // Nothing that hadn't been sent yet will be
+      statuses.filter(s => s.status === 'pending').forEach(s => onStatus(s, { status: 'error', error: getErrorMessage(error) }));
+    } finally {
+      setIsTransferring(false);
+      // Deselect what was sent so the button only offers the remaining transfers
+      setAssets(prev => excludeSentTransfers(prev, statuses, destinations));
+      recordMigration({
+        id: migrationId,
+        network,
+        sources: sources.map(s => s.address),
+        destinations: reportDestinations(destinations),
+        assets,
+        statuses,
+      });
     }
+  };
+
+  const reportDestinations = (list: Destination[]): ReportDestination[] =>
+    list.map(d => ({ address: d.address, label: d.label, force: destinationForce(d) }));
+
+  const recordMigration = (report: Parameters<typeof buildReport>[0]) => {
+    setHistory(saveToHistory(buildReport(report)));
+  };
 
+  const handleResumeSession = async () => {
+    if (!savedSession || !liveAddress) return;
+    const provider = await resolveSourceProvider();
+    if (!provider) return;
+
+    const { assets: resumedAssets, transferStatuses: resumedStatuses } = prepareResume(savedSession);
+    // Only the connected wallet's provider is known again; the other sources
+    // are switched to in that wallet when their turn comes
+    setSources(savedSession.sources.map(s => isSameAccount(s.address, liveAddress) ? { ...s, provider } : s));
+    setDestinations(savedSession.destinations);
+    setAssets(resumedAssets);
+    setMigrationId(savedSession.migrationId);
+    setTransferStatuses(resumedStatuses);
+    setTransferData(savedSession.transferData ?? '');
+    setScanSummary(null);
+    setIndexerError('');
+    setVerifyError('');
+    setManualTokenSource(savedSession.sources[0].address);
+    setSimulations([]);
+    setLyxGasReserves({});
+    setExpandedCollections([]);
+    setSavedSession(null);
+    setStep(3);
+
+    // Settle the transactions that were submitted before the interruption
+    // before anything else can be sent
+    const submitted = resumedStatuses.filter(s => s.status === 'submitted' && s.txHash);
+    if (submitted.length === 0) return;
+    setIsTransferring(true);
+    let statuses = resumedStatuses;
+    const settle = (ref: TransferRef, update: Partial<TransferStatus>) => {
+      statuses = statuses.map(s => transferKey(s) === transferKey(ref) ? { ...s, ...update } : s);
+      updateTransferStatus(ref, update);
+    };
+    await Promise.all(submitted.map(async (ref) => {
+      try {
+        const outcome = await waitForReceipt(provider, ref.txHash!);
+        settle(ref, {
+          status: outcome,
+          error: outcome === 'reverted' ? 'Transaction reverted' : undefined,
+        });
+      } catch (error: unknown) {
+        settle(ref, { status: 'error', error: getErrorMessage(error) });
+      }
+    }));
+    recordMigration({
+      id: savedSession.migrationId,
+      network,
+      sources: savedSession.sources.map(s => s.address),
+      destinations: reportDestinations(savedSession.destinations),
+      assets: savedSession.assets,
+      statuses,
+    });
     setIsTransferring(false);
   };
 
+  const handleDiscardSession = () => {
+    clearSession();
+    setSavedSession(null);
+  };
+
+  const handleSaveEndpoints = (overrides: EndpointOverrides) => {
+    saveEndpointOverrides(overrides);
+    setEndpointOverrides(overrides);
+  };
+
+  const handleDeleteReport = (id: string) => {
+    setHistory(deleteFromHistory(id));
+  };
+
+  // --- Watch-only preview and share links ---
+
+  // This page with the current selection in its query string
+  const buildShareUrl = () => {
+    const plan = createSharedPlan(networkId, sources.map(s => s.address), destinations, assets);
+    const params = toShareParams(plan, new URLSearchParams(window.location.search));
+    return `${window.location.origin}${window.location.pathname}?${params}`;
+  };
+
+  const handleCopyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl());
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy the share link:', error);
+    }
+  };
+
+  // Scan any addresses without a wallet. Destinations are optional; without
+  // one nothing is simulated.
+  const handleWatchOnly = async () => {
+    const parsedSources = parseAddressList(watchInput.sources);
+    const parsedDestinations = parseAddressList(watchInput.destinations);
+    if ('error' in parsedSources || 'error' in parsedDestinations) {
+      setWatchError('error' in parsedSources ? parsedSources.error : (parsedDestinations as { error: string }).error);
+      return;
+    }
+    if (parsedSources.addresses.length === 0) {
+      setWatchError('Enter the address to preview.');
+      return;
+    }
+    const watched = parsedSources.addresses.map(address => ({ address, walletName: 'Watch-only' }));
+    const targets = parsedDestinations.addresses.reduce<Destination[]>((prev, address) => [...prev, createDestination(address, false, prev)], []);
+    if (targets.some(d => watched.some(s => isSameAccount(s.address, d.address)))) {
+      setWatchError('Source and destination addresses are the same.');
+      return;
+    }
+    setWatchError('');
+    setWatchOnly(true);
+    setSources(watched);
+    setDestinations(targets);
+    await handleFindAssets({ sources: watched, destinations: targets });
+  };
+
+  // Name the asset(s) a call sends, e.g. "12.5 MOCK" or "Collectibles #1, #3"
+  const describeLegs = (legs: TransferLeg[]) => {
+    const { asset } = legs[0];
+    return asset.type === 'LSP8'
+      ? `${asset.name} ${legs.map(leg => formatTokenId(leg.tokenId ?? '')).join(', ')}`
+      : `${legs.map(leg => leg.amount).join(' + ')} ${asset.symbol}`;
+  };
+
+  // The legs the Transfer button sends now (never what already went through
+  // in an earlier run), and every transaction they take
+  const planReview = (): { legs: TransferLeg[]; review: TransferReview } => {
+    const legs = planLegs(excludeSentTransfers(assets, transferStatuses, destinations), destinations, transferData);
+    const { calls, failed } = planCalls(legs, batchTransfers ? { gasFor: legGas } : undefined);
+    return {
+      legs,
+      review: {
+        plan: buildTransactionPlan(network, calls, call => call.legs.reduce((sum, leg) => sum + legGas(leg), BigInt(0))),
+        labels: calls.map(call => describeLegs(call.legs)),
+        failed: failed.map(({ ref, error }) => ({
+          label: describeLegs(legs.filter(leg => transferKey(legRef(leg)) === transferKey(ref))),
+          error,
+        })),
+      },
+    };
+  };
+
+  // Lay out every transaction handleTransferAll would send, for review before
+  // any wallet prompt. Also offered in a preview, to export the plan.
+  const handleReviewTransfers = () => {
+    setReview(planReview().review);
+  };
+
+  // Send only what was reviewed: if the selection, its balances or gas
+  // estimates have changed the transactions since, show the new ones instead
+  const handleConfirmReview = () => {
+    if (!review) return;
+    const { legs, review: current } = planReview();
+    const diff = diffTransactionPlans(review.plan, current.plan);
+    if (diff) {
+      setReview({
+        ...current,
+        changes: {
+          added: diff.added.map(i => current.labels[i]),
+          removed: diff.removed.map(i => review.labels[i]),
+        },
+      });
+      return;
+    }
+    setReview(null);
+    handleTransferAll(legs);
+  };
+
+  const handleImportPlan = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPlanStatuses([]);
+    const parsed = parseTransactionPlan(await file.text());
+    if ('error' in parsed) {
+      setImportedPlan(null);
+      setPlanError(`The plan can't be read: ${parsed.error}`);
+      return;
+    }
+    if (parsed.plan.network !== networkId) {
+      if (sources.length > 0) {
+        setImportedPlan(null);
+        setPlanError(`This plan is for ${NETWORKS[parsed.plan.network].chainParams.chainName}. Remove the added accounts to change the network.`);
+        return;
+      }
+      handleSelectNetwork(parsed.plan.network);
+    }
+    setPlanError('');
+    setImportedPlan(parsed.plan);
+  };
+
+  // Send the imported plan from the connected wallet, switching it to each
+  // transaction's account in turn
+  const handleSignPlan = async () => {
+    if (!importedPlan) return;
+    const provider = await resolveSourceProvider();
+    if (!provider) {
+      setPlanError('Connect the wallet that holds the plan\'s accounts first.');
+      return;
+    }
+    const walletName = sourceWalletName || connector?.name || 'Wallet';
+    const [first] = importedPlan.transactions;
+    setSigningPlan(true);
+    setPlanError('');
+    setPlanStatuses(importedPlan.transactions.map(() => ({ status: 'pending' })));
+    await executePlan({
+      provider,
+      transactions: importedPlan.transactions,
+      onStatus: (index, update) => setPlanStatuses(prev => prev.map((s, i) => i === index ? { ...s, ...update } : s)),
+      beforeSend: tx => confirmWalletContext(provider, { address: tx.from, walletName }, tx !== first, tx.chainId),
+    });
+    setSigningPlan(false);
+  };
+
+  const handleLeavePreview = () => {
+    setWatchOnly(false);
+    setSources([]);
+    setDestinations([]);
+    setAssets([]);
+    setStep(1);
+  };
+
+  // Continue with the wallets: the previewed selection is applied again once
+  // the owner has connected the source and scanned it
+  const handleSignPreview = () => {
+    setSharedPlan(createSharedPlan(networkId, sources.map(s => s.address), destinations, assets));
+    setWatchOnly(false);
+    setSources([]);
+    setAssets([]);
+    setStep(1);
+  };
+
+  // Assets listed per source, in the order the sources were added
+  const groupedAssets = sources.flatMap(source => assets.filter(a => isSameAccount(a.source, source.address)));
+  // Search, filters and sorting apply within each source; suspected spam is
+  // listed apart, collapsed
+  const listedAssets = sources.flatMap(source => filterAssets(
+    groupedAssets.filter(a => !a.spam && isSameAccount(a.source, source.address)),
+    assetFilter,
+    transferStatuses,
+  ));
+  const hiddenAssets = groupedAssets.filter(a => a.spam);
+  const filtering = isFilterActive(assetFilter);
   const selectedCount = assets.filter(a => a.selected).length;
-  const completedTransfers = transferStatuses.filter(s => s.status === 'success').length;
-  const failedTransfers = transferStatuses.filter(s => s.status === 'error').length;
+  const plannedLegs = planLegs(assets, destinations, transferData);
+  const walletPrompts = groupLegsBySource(plannedLegs).reduce((count, group) => {
+    if (bundleCalls && atomicSources.some(a => isSameAccount(a, group.source))) return count + 1;
+    return count + (batchTransfers ? batchLegs(group.legs, legGas).length : group.legs.length);
+  }, 0);
+  const sourceCosts = feeData ? estimateSourceCosts(plannedLegs, legGas, feeData.gasPrice, feeData.balances) : [];
+  const totalGasCost = sourceCosts.reduce((sum, cost) => sum + cost.fee, BigInt(0));
+  const shortSources = sourceCosts.filter(cost => cost.missing > BigInt(0));
+  const fundingProfile = destinations.find(d => d.connected);
+  const revertingCount = simulations.filter(r => r.status === 'revert').length;
+  const completedTransfers = transferStatuses.filter(s => s.status === 'confirmed').length;
+  const failedTransfers = transferStatuses.filter(s => s.status === 'error' || s.status === 'reverted').length;
+
+  const savedSummary = savedSession ? summarizeSession(savedSession) : null;
+  const isSavedSourceConnected = !!savedSession && savedSession.sources.some(s => isSameAccount(s.address, liveAddress));
+  const canResume = isSavedSourceConnected && savedSession.network === networkId && isOnLukso && !isSourceUP;
+  const currentReport = history.find(r => r.id === migrationId);
 
   return (
     <main className="min-h-screen flex flex-col items-center justify-center p-8">
@@ -612,14 +1944,73 @@ export default function Home() {
           </div>
         </div>
 
+        {/* Network */}
+        {step === 1 && (
+          <NetworkSelector network={network} onSelect={handleSelectNetwork} locked={sources.length > 0 || isTransferring || importedPlan !== null} />
+        )}
+
+        {/* Unfinished migration from an earlier visit */}
+        {step === 1 && savedSession && savedSummary && (
+          <div className="mb-6 p-4 bg-purple-500/10 border border-purple-500/30 rounded-2xl text-sm">
+            <p className="text-purple-300 font-medium mb-1">Unfinished migration found</p>
+            <p className="text-gray-400 font-mono text-xs mb-2">
+              {savedSession.sources.map(s => shortenAddress(s.address)).join(', ')} → {savedSession.destinations.map(d => shortenAddress(d.address)).join(', ')}
+              <span className="font-sans"> · saved {new Date(savedSession.savedAt).toLocaleString()}</span>
+            </p>
+            <p className="text-gray-300">
+              {savedSummary.confirmed} confirmed
+              {savedSummary.awaiting > 0 && ` · ${savedSummary.awaiting} awaiting confirmation`}
+              {` · ${savedSummary.remaining} still to send`}
+            </p>
+            {savedSummary.interrupted > 0 && (
+              <p className="mt-1 text-yellow-400 text-xs">
+                {savedSummary.interrupted} transfer{savedSummary.interrupted !== 1 ? 's were' : ' was'} waiting for a signature or a bundle's outcome when the page closed. {savedSummary.interrupted !== 1 ? 'They stay' : 'It stays'} deselected — check your wallet activity before sending again.
+              </p>
+            )}
+            {savedSession.network !== networkId && (
+              <p className="mt-2 text-gray-500 text-xs">
+                This migration ran on {NETWORKS[savedSession.network].chainParams.chainName}. Select it above to resume.
+              </p>
+            )}
+            {!isSavedSourceConnected && (
+              <p className="mt-2 text-gray-500 text-xs">
+                Connect {savedSession.sources.length > 1 ? 'one of these accounts' : shortenAddress(savedSession.sources[0].address)} below to resume. Scanning again starts a new migration and replaces this one.
+              </p>
+            )}
+            <div className="flex gap-3 mt-3">
+              <button
+                onClick={handleResumeSession}
+                disabled={!canResume}
+                className="bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-5 rounded-xl transition-colors"
+              >
+                Resume
+              </button>
+              <button
+                onClick={handleDiscardSession}
+                className="border border-gray-600 text-gray-400 font-semibold py-2 px-5 rounded-xl hover:bg-gray-800 transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Step 1: Connect Legacy Wallet */}
         {step === 1 && (
           <div className="bg-gray-900/50 border border-gray-800 rounded-2xl p-8 backdrop-blur-sm">
             <h2 className="text-2xl font-semibold mb-2 text-white">Step 1: Connect Legacy Wallet</h2>
             <p className="text-gray-400 mb-6">
-              Connect the legacy wallet that holds your LSP7 and LSP8 assets.
+              Connect the legacy wallet that holds your LSP7 and LSP8 assets. To migrate several accounts at once, add each one — switch accounts in your wallet, or disconnect and connect another wallet.
             </p>
 
+            {/* Accounts added so far */}
+            {sources.length > 0 && (
+              <div className="mb-6">
+                <p className="text-sm text-gray-400 mb-2">Accounts to migrate</p>
+                <SourceList sources={sources} onRemove={removeSource} />
+              </div>
+            )}
+
             <div className="flex justify-center">
               {isSourceConnected ? (
                 <div className="text-center w-full">
@@ -655,23 +2046,26 @@ export default function Home() {
                         <svg className="w-5 h-5 hidden group-hover:block" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
                           <path strokeLinecap="round" strokeLinejoin="round" d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
                         </svg>
-                        <span className="group-hover:hidden">Connected: {sourceAddress?.slice(0, 6)}...{sourceAddress?.slice(-4)}</span>
+                        <span className="group-hover:hidden">Connected: {liveAddress?.slice(0, 6)}...{liveAddress?.slice(-4)}</span>
                         <span className="hidden group-hover:inline">Disconnect</span>
                       </button>
+                      <div className="flex gap-3 justify-center mb-4">
+                        <button
+                          onClick={addCurrentSource}
+                          disabled={isLiveSourceAdded}
+                          className="border border-gray-600 text-gray-300 text-sm font-semibold py-2 px-4 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
+                        >
+                          {isLiveSourceAdded ? 'Account added' : 'Add this account'}
+                        </button>
+                        <button
+                          onClick={handleSwitchAccount}
+                          className="border border-gray-600 text-gray-300 text-sm font-semibold py-2 px-4 rounded-xl hover:bg-gray-800 transition-colors"
+                        >
+                          Switch account
+                        </button>
+                      </div>
                       <button
-                        onClick={async () => {
-                          setSavedSourceAddress(liveAddress || '');
-                          // Ensure we have the source provider (covers auto-reconnect)
-                          if (!sourceProvider && connector) {
-                            try {
-                              const provider = await connector.getProvider() as EthereumProvider;
-                              setSourceProvider(provider);
-                            } catch (e) {
-                              console.error('Failed to get provider from connector:', e);
-                            }
-                          }
-                          setStep(2);
-                        }}
+                        onClick={handleContinueToDestinations}
                         className="bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white font-semibold py-3 px-8 rounded-xl transition-all transform hover:scale-105"
                       >
                         Continue to Step 2
@@ -687,7 +2081,7 @@ export default function Home() {
                           Wrong network detected
                         </div>
                         <p className="text-yellow-400/70 text-sm">
-                          Your wallet is not on the LUKSO network. Switch to continue.
+                          Your wallet is not on {network.chainParams.chainName}. Switch to continue.
                         </p>
                       </div>
                       <div className="flex gap-3 justify-center">
@@ -705,7 +2099,7 @@ export default function Home() {
                               Switching...
                             </>
                           ) : (
-                            'Switch to LUKSO'
+                            `Switch to ${network.chainParams.chainName}`
                           )}
                         </button>
                         <button
@@ -756,18 +2150,121 @@ export default function Home() {
                       </p>
                     </div>
                   )}
+                  {sources.length > 0 && (
+                    <div className="text-center mt-6">
+                      <button
+                        onClick={handleContinueToDestinations}
+                        className="bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white font-semibold py-3 px-8 rounded-xl transition-all transform hover:scale-105"
+                      >
+                        Continue to Step 2
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           </div>
         )}
 
+        {/* Watch-only preview */}
+        {step === 1 && sources.length === 0 && (
+          <div className="mt-6 bg-gray-900/50 border border-gray-800 rounded-2xl p-6 backdrop-blur-sm">
+            <h3 className="text-lg font-semibold mb-1 text-white">Preview without a wallet</h3>
+            <p className="text-gray-400 text-sm mb-4">
+              Enter any address to see what it would migrate. Nothing can be signed in a preview; copy its link and send it to the wallet owner, who opens it, connects the wallet and signs.
+            </p>
+            {sharedPlan && (
+              <p className="mb-4 p-3 bg-purple-500/10 border border-purple-500/30 rounded-lg text-sm text-purple-300">
+                This link carries a prepared migration
+                {sharedPlan.assets && ` of ${sharedPlan.assets.length} asset${sharedPlan.assets.length !== 1 ? 's' : ''}`}
+                {' '}from <span className="font-mono">{sharedPlan.sources.map(shortenAddress).join(', ')}</span>.
+                {' '}Connect {sharedPlan.sources.length > 1 ? 'these accounts' : 'that account'} above to sign it — the selection is applied after the scan — or preview it here.
+              </p>
+            )}
+            <div className="space-y-2">
+              <input
+                type="text"
+                placeholder="0x... source address"
+                value={watchInput.sources}
+                onChange={(e) => { setWatchInput(prev => ({ ...prev, sources: e.target.value })); setWatchError(''); }}
+                disabled={scanning}
+                className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-pink-500 transition-colors font-mono text-sm disabled:opacity-50"
+              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  placeholder="0x... destination (optional)"
+                  value={watchInput.destinations}
+                  onChange={(e) => { setWatchInput(prev => ({ ...prev, destinations: e.target.value })); setWatchError(''); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleWatchOnly(); }}
+                  disabled={scanning}
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-pink-500 transition-colors font-mono text-sm disabled:opacity-50"
+                />
+                <button
+                  onClick={handleWatchOnly}
+                  disabled={!watchInput.sources.trim() || scanning}
+                  className="border border-gray-600 text-gray-300 text-sm font-semibold py-2 px-4 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {scanning ? 'Scanning...' : 'Preview'}
+                </button>
+              </div>
+            </div>
+            {watchError && <p className="mt-2 text-xs text-red-400">{watchError}</p>}
+          </div>
+        )}
+
+        {/* Sign a plan exported from another session's review */}
+        {step === 1 && (
+          <div className="mt-6 bg-gray-900/50 border border-gray-800 rounded-2xl p-6 backdrop-blur-sm">
+            <h3 className="text-lg font-semibold mb-1 text-white">Sign a prepared plan</h3>
+            <p className="text-gray-400 text-sm mb-4">
+              Load an unsigned transaction plan exported from a review. Every transaction is decoded below; connect the wallet of its accounts above and they are sent in the plan&apos;s order.
+            </p>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportPlan}
+              disabled={signingPlan}
+              className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border file:border-gray-600 file:bg-transparent file:text-gray-300 file:font-semibold hover:file:bg-gray-800 disabled:opacity-50"
+            />
+            {planError && <p className="mt-2 text-xs text-red-400">{planError}</p>}
+            {importedPlan && (
+              <div className="mt-4">
+                <TransactionReview plan={importedPlan} network={network} statuses={planStatuses} />
+                {accountPrompt && <AccountPromptNotice prompt={accountPrompt} network={network} />}
+                {planStatuses.length > 0 && !signingPlan && (
+                  <p className="mt-4 text-sm text-gray-400">
+                    {planStatuses.filter(s => s.status === 'confirmed').length} of {planStatuses.length} transactions confirmed
+                  </p>
+                )}
+                <div className="flex gap-4 mt-4">
+                  <button
+                    onClick={() => { setImportedPlan(null); setPlanStatuses([]); }}
+                    disabled={signingPlan}
+                    className="flex-1 border border-gray-600 text-gray-400 font-semibold py-3 px-6 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={handleSignPlan}
+                    disabled={!liveAddress || signingPlan || planStatuses.length > 0}
+                    className="flex-1 font-semibold py-3 px-6 rounded-xl transition-all bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white disabled:opacity-50"
+                  >
+                    {signingPlan ? 'Signing...' : `Sign ${importedPlan.transactions.length} Transaction${importedPlan.transactions.length !== 1 ? 's' : ''}`}
+                  </button>
+                </div>
+                {!liveAddress && <p className="mt-2 text-xs text-gray-500">Connect a wallet above to sign.</p>}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Step 2: Destination Profile */}
         {step === 2 && (
           <div className="bg-gray-900/50 border border-gray-800 rounded-2xl p-8 backdrop-blur-sm">
             <h2 className="text-2xl font-semibold mb-2 text-white">Step 2: Destination Profile</h2>
             <p className="text-gray-400 mb-6">
-              Connect your Universal Profile or enter its address. This is where the assets will be sent.
+              Connect your Universal Profile or enter its address. Add more profiles to route assets to different destinations in the next step.
             </p>
 
             {/* Source wallet reminder */}
@@ -779,67 +2276,57 @@ export default function Home() {
               </div>
               <div className="min-w-0">
                 <p className="text-gray-400">
-                  Source: <span className="text-white font-mono">{sourceAddress?.slice(0, 6)}...{sourceAddress?.slice(-4)}</span>
+                  Source{sources.length !== 1 ? 's' : ''}: <span className="text-white font-mono">{sources.map(s => shortenAddress(s.address)).join(', ')}</span>
                 </p>
               </div>
             </div>
 
+            {/* Destinations */}
+            {destinations.length > 0 && (
+              <div className="mb-6 space-y-3">
+                {destinations.map(destination => (
+                  <DestinationCard
+                    key={destination.id}
+                    destination={destination}
+                    onUpdate={(update) => updateDestination(destination.id, update)}
+                    onRemove={() => removeDestination(destination.id)}
+                  />
+                ))}
+              </div>
+            )}
+
             {/* Connect UP Extension */}
             <div className="mb-6">
-              {upConnected ? (
-                <div className="p-4 bg-green-500/10 border border-green-500/30 rounded-xl">
-                  <div className="flex items-center justify-between gap-3">
-                    <div className="flex items-center gap-3 min-w-0">
-                      <div className="w-10 h-10 rounded-full bg-green-500/20 flex items-center justify-center shrink-0">
-                        <svg className="w-5 h-5 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                      </div>
-                      <div className="min-w-0">
-                        <p className="text-sm font-medium text-green-300">UP Connected</p>
-                        <p className="text-xs text-gray-400 font-mono truncate">{upAddress}</p>
-                      </div>
-                    </div>
-                    <button
-                      onClick={handleDisconnectUP}
-                      className="text-sm text-gray-400 hover:text-white py-1.5 px-3 rounded-lg hover:bg-gray-700 transition-colors whitespace-nowrap"
-                    >
-                      Change
-                    </button>
-                  </div>
-                </div>
-              ) : (
-                <button
-                  onClick={handleConnectUPExtension}
-                  disabled={upConnecting}
-                  className="w-full p-4 bg-pink-500/10 border border-pink-500/30 rounded-xl hover:bg-pink-500/20 transition-colors flex items-center justify-center gap-3 group"
-                >
-                  {upConnecting ? (
-                    <>
-                      <svg className="animate-spin h-5 w-5 text-pink-400" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+              <button
+                onClick={handleConnectUPExtension}
+                disabled={upConnecting}
+                className="w-full p-4 bg-pink-500/10 border border-pink-500/30 rounded-xl hover:bg-pink-500/20 transition-colors flex items-center justify-center gap-3 group"
+              >
+                {upConnecting ? (
+                  <>
+                    <svg className="animate-spin h-5 w-5 text-pink-400" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                    </svg>
+                    <span className="text-pink-300 font-medium">Connecting...</span>
+                  </>
+                ) : (
+                  <>
+                    <div className="w-10 h-10 rounded-full bg-pink-500/20 flex items-center justify-center group-hover:bg-pink-500/30 transition-colors">
+                      <svg className="w-5 h-5 text-pink-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                       </svg>
-                      <span className="text-pink-300 font-medium">Connecting...</span>
-                    </>
-                  ) : (
-                    <>
-                      <div className="w-10 h-10 rounded-full bg-pink-500/20 flex items-center justify-center group-hover:bg-pink-500/30 transition-colors">
-                        <svg className="w-5 h-5 text-pink-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                        </svg>
-                      </div>
-                      <div className="text-left">
-                        <p className="text-sm font-medium text-pink-300">Connect UP Browser Extension</p>
-                        <p className="text-xs text-gray-400">Use the Universal Profile extension to connect</p>
-                      </div>
-                    </>
-                  )}
-                </button>
-              )}
+                    </div>
+                    <div className="text-left">
+                      <p className="text-sm font-medium text-pink-300">Connect UP Browser Extension</p>
+                      <p className="text-xs text-gray-400">Use the Universal Profile extension to connect</p>
+                    </div>
+                  </>
+                )}
+              </button>
 
               {/* UP connection error */}
-              {upError && !upConnected && (
+              {upError && (
                 <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm flex items-start gap-2">
                   <svg className="w-4 h-4 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
                     <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -850,20 +2337,30 @@ export default function Home() {
             </div>
 
             {/* Manual address input */}
-            {!upConnected && (
-              <div className="border-t border-gray-800 pt-6">
-                <p className="text-gray-400 mb-4 text-sm">
-                  Or enter your Universal Profile address manually:
-                </p>
+            <div className="border-t border-gray-800 pt-6">
+              <p className="text-gray-400 mb-4 text-sm">
+                {destinations.length === 0
+                  ? 'Or enter your Universal Profile address manually:'
+                  : 'Add another destination to split the assets across several profiles:'}
+              </p>
+              <div className="flex gap-2">
                 <input
                   type="text"
                   placeholder="0x..."
-                  value={upAddress}
-                  onChange={(e) => { setUpAddress(e.target.value); setUpError(''); }}
-                  className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:border-pink-500 transition-colors font-mono text-sm"
+                  value={destinationInput}
+                  onChange={(e) => { setDestinationInput(e.target.value.trim()); setUpError(''); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddDestination(); }}
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:border-pink-500 transition-colors font-mono text-sm"
                 />
+                <button
+                  onClick={handleAddDestination}
+                  disabled={!destinationInput}
+                  className="border border-gray-600 text-gray-300 text-sm font-semibold py-2 px-4 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  Add
+                </button>
               </div>
-            )}
+            </div>
 
             {/* Same address warning */}
             {isSameAddress && (
@@ -871,7 +2368,25 @@ export default function Home() {
                 <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                 </svg>
-                Source and destination are the same address. Use a different wallet.
+                A source wallet is also a destination. Remove it or use a different wallet.
+              </div>
+            )}
+
+            {/* Scan progress */}
+            {scanning && scanProgress && (
+              <div className="mt-4 p-3 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-gray-400">
+                <div className="flex items-center justify-between mb-2">
+                  <span>{verifying ? 'Verifying balances on-chain...' : 'Scanning indexer...'}</span>
+                  <span className="text-white">
+                    {(scanProgress.lsp7 + scanProgress.lsp8).toLocaleString('en-US')} holdings found
+                  </span>
+                </div>
+                <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full w-1/3 bg-gradient-to-r from-pink-500 to-purple-500 animate-pulse" />
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  LSP7: {scanProgress.lsp7.toLocaleString('en-US')} · LSP8: {scanProgress.lsp8.toLocaleString('en-US')}
+                </p>
               </div>
             )}
 
@@ -891,10 +2406,10 @@ export default function Home() {
                 Back
               </button>
               <button
-                onClick={handleFindAssets}
-                disabled={!upAddress || scanning || isSameAddress}
+                onClick={() => handleFindAssets()}
+                disabled={!canScan}
                 className={`flex-1 font-semibold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-2 ${
-                  upAddress && !scanning && !isSameAddress
+                  canScan
                     ? 'bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white transform hover:scale-[1.02]'
                     : 'bg-gray-700 text-gray-500 cursor-not-allowed'
                 }`}
@@ -916,30 +2431,85 @@ export default function Home() {
         )}
 
         {/* Step 3: Review & Transfer Assets */}
-        {step === 3 && (
+        {step === 3 && !review && (
           <div className="bg-gray-900/50 border border-gray-800 rounded-2xl p-8 backdrop-blur-sm">
-            <h2 className="text-2xl font-semibold mb-2 text-white">Step 3: Transfer Assets</h2>
+            <h2 className="text-2xl font-semibold mb-2 text-white">{watchOnly ? 'Preview: Assets to Transfer' : 'Step 3: Transfer Assets'}</h2>
             <p className="text-gray-400 mb-6">
-              Select the assets you want to transfer to your Universal Profile.
+              Select the assets you want to transfer and, with several destinations, where each one goes.
             </p>
 
+            {watchOnly && (
+              <div className="mb-6 p-3 bg-purple-500/10 border border-purple-500/30 rounded-lg text-sm flex items-center gap-3">
+                <span className="flex-1 text-purple-300">
+                  Watch-only preview: nothing can be signed here. The selection is kept in the page URL — share it with the owner of {sources.length > 1 ? 'these accounts' : 'this account'}.
+                </span>
+                <button onClick={handleCopyShareLink} className="text-xs font-semibold text-pink-400 hover:text-pink-300 transition-colors shrink-0">
+                  {linkCopied ? 'Link copied' : 'Copy link'}
+                </button>
+              </div>
+            )}
+
             {/* Address summary */}
             <div className="mb-6 grid grid-cols-1 gap-2">
-              <div className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg flex items-center gap-3 text-sm">
-                <span className="text-gray-500 w-12 shrink-0">From</span>
-                <span className="text-white font-mono truncate">{sourceAddress}</span>
-              </div>
+              {sources.map((source, i) => (
+                <div key={source.address} className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg flex items-center gap-3 text-sm">
+                  <span className="text-gray-500 w-12 shrink-0">{i === 0 ? 'From' : ''}</span>
+                  <span className="text-white font-mono truncate">{source.address}</span>
+                  {sources.length > 1 && <span className="ml-auto text-xs text-gray-400 shrink-0">{source.walletName}</span>}
+                </div>
+              ))}
               <div className="flex justify-center">
                 <svg className="w-4 h-4 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M19 14l-7 7m0 0l-7-7m7 7V3" />
                 </svg>
               </div>
-              <div className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg flex items-center gap-3 text-sm">
-                <span className="text-gray-500 w-12 shrink-0">To</span>
-                <span className="text-white font-mono truncate">{upAddress}</span>
-              </div>
+              {destinations.map((destination, i) => (
+                <div key={destination.id} className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg flex items-center gap-3 text-sm">
+                  <span className="text-gray-500 w-12 shrink-0">{i === 0 ? 'To' : ''}</span>
+                  {destinations.length > 1 && <span className="text-gray-300 shrink-0">{destination.label}</span>}
+                  <span className="text-white font-mono truncate">{destination.address}</span>
+                  <span className="ml-auto" />
+                  <DestinationBadge destination={destination} />
+                </div>
+              ))}
             </div>
 
+            {/* Indexer unavailable */}
+            {indexerError && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm flex items-start gap-2">
+                <svg className="w-4 h-4 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span>
+                  The asset indexer is unavailable ({indexerError}). Add token contracts by address below to discover them on-chain.
+                </span>
+              </div>
+            )}
+
+            {/* On-chain verification failed */}
+            {verifyError && (
+              <div className="mb-4 p-3 bg-yellow-500/20 border border-yellow-500/30 rounded-lg text-yellow-400 text-sm">
+                Balances could not be verified on-chain ({verifyError}). The list below shows indexer data only.
+              </div>
+            )}
+
+            {/* Scan summary */}
+            {scanSummary && (
+              <p className="mb-3 text-xs text-gray-500">
+                {scanSummary.holdCount.toLocaleString('en-US')} holding{scanSummary.holdCount !== 1 ? 's' : ''} discovered
+              </p>
+            )}
+            {scanSummary?.incomplete && (
+              <div className="mb-4 p-3 bg-yellow-500/20 border border-yellow-500/30 rounded-lg text-yellow-400 text-sm flex items-start gap-2">
+                <svg className="w-4 h-4 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+                <span>
+                  Scan incomplete: {scanSummary.incomplete} Some assets may be missing from this list — scan again after this migration to pick up the rest.
+                </span>
+              </div>
+            )}
+
             {/* Asset list */}
             {assets.length === 0 ? (
               <div className="text-center py-12">
@@ -947,157 +2517,611 @@ export default function Home() {
                   <path strokeLinecap="round" strokeLinejoin="round" d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
                 </svg>
                 <p className="text-gray-400 mb-2">No assets found</p>
-                <p className="text-gray-500 text-sm">This wallet doesn&apos;t hold any LSP7 or LSP8 tokens on LUKSO.</p>
+                <p className="text-gray-500 text-sm">
+                  {indexerError
+                    ? 'Add a token contract address below to check it on-chain.'
+                    : sources.length > 1
+                      ? 'None of these wallets hold any LSP7 or LSP8 tokens on LUKSO.'
+                      : <>This wallet doesn&apos;t hold any LSP7 or LSP8 tokens on LUKSO.</>}
+                </p>
               </div>
             ) : (
               <>
+                {/* Pre-flight simulation */}
+                <div className="flex items-center justify-between mb-3 text-xs">
+                  {simulating ? (
+                    <span className="flex items-center gap-2 text-gray-400">
+                      <svg className="animate-spin h-3.5 w-3.5" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                      </svg>
+                      Simulating transfers...
+                    </span>
+                  ) : simulations.length > 0 ? (
+                    <span className="text-gray-400">
+                      Simulated {simulations.length} transfer{simulations.length !== 1 ? 's' : ''}
+                      {revertingCount > 0 && (
+                        <span className="text-red-400"> · {revertingCount} would revert</span>
+                      )}
+                    </span>
+                  ) : (
+                    <span className="text-gray-500">Transfers have not been simulated yet</span>
+                  )}
+                  <button
+                    onClick={() => runSimulation(assets.filter(a => a.selected))}
+                    disabled={simulating || isTransferring || selectedCount === 0}
+                    className="text-pink-400 hover:text-pink-300 transition-colors disabled:opacity-50"
+                  >
+                    Re-check selection
+                  </button>
+                </div>
+
+                <AssetFilterBar filter={assetFilter} onChange={setAssetFilter} />
+
                 {/* Select controls */}
                 <div className="flex items-center justify-between mb-3">
                   <p className="text-sm text-gray-400">
                     {selectedCount} of {assets.length} selected
+                    {filtering && <span className="text-gray-500"> · {listedAssets.length} shown</span>}
                   </p>
                   <div className="flex gap-2">
-                    <button onClick={selectAll} className="text-xs text-pink-400 hover:text-pink-300 transition-colors">
-                      Select all
+                    <button onClick={selectListed} disabled={isTransferring} className="text-xs text-pink-400 hover:text-pink-300 transition-colors disabled:opacity-50">
+                      {filtering ? 'Select visible' : 'Select all'}
                     </button>
                     <span className="text-gray-600">·</span>
-                    <button onClick={deselectAll} className="text-xs text-gray-400 hover:text-gray-300 transition-colors">
-                      Deselect all
+                    <button onClick={deselectListed} disabled={isTransferring} className="text-xs text-gray-400 hover:text-gray-300 transition-colors disabled:opacity-50">
+                      {filtering ? 'Deselect visible' : 'Deselect all'}
                     </button>
                   </div>
                 </div>
 
                 {/* Token list */}
-                <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
-                  {assets.map((asset) => {
-                    const status = transferStatuses.find(s => s.address === asset.address);
-                    return (
-                      <div
-                        key={asset.address}
-                        onClick={() => !isTransferring && toggleAsset(asset.address)}
-                        className={`p-4 rounded-xl border transition-all cursor-pointer ${
-                          asset.selected
-                            ? 'bg-pink-500/10 border-pink-500/30'
-                            : 'bg-gray-800/30 border-gray-700 hover:border-gray-600'
-                        } ${isTransferring ? 'cursor-default' : ''}`}
+                <div className="space-y-2 max-h-[28rem] overflow-y-auto pr-1">
+                  {filtering && listedAssets.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-6">
+                      No assets match.{' '}
+                      <button onClick={() => setAssetFilter(DEFAULT_ASSET_FILTER)} className="text-pink-400 hover:text-pink-300">Clear filters</button>
+                    </p>
+                  )}
+                  {listedAssets.map((asset, index) => {
+                    const key = assetKey(asset);
+                    const isOwn = (r: { from?: string; address: string }) => r.address === asset.address && isSameAccount(r.from, asset.source);
+                    const mainDestination = resolveDestination(destinations, asset.destinationId);
+                    const statusFor = (to: string | undefined, tokenId?: string) =>
+                      transferStatuses.find(s => transferKey(s) === transferKey({ from: asset.source, address: asset.address, tokenId, to }));
+                    const status = asset.type !== 'LSP8' ? statusFor(mainDestination?.address) : undefined;
+                    const tokenStatuses = asset.type === 'LSP8'
+                      ? transferStatuses.filter(isOwn)
+                      : [];
+                    const isExpanded = expandedCollections.includes(key);
+                    const simulation = asset.type === 'LSP7'
+                      ? simulations.find(r => isOwn(r) && !r.tokenId && r.status === 'revert')
+                      : undefined;
+                    const portionIds = [asset.destinationId, ...(asset.amountSplits ?? []).map(split => split.destinationId)];
+                    const revertingTokens = asset.type === 'LSP8'
+                      ? simulations.filter(r => isOwn(r) && r.status === 'revert')
+                      : [];
+                    const source = sources.find(s => isSameAccount(s.address, asset.source));
+                    const dataButton = asset.type !== 'LYX' && asset.transferData === undefined && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          updateAssetData(key, transferData);
+                        }}
+                        disabled={isTransferring}
+                        title="Send this asset with its own LSP1 data"
+                        className="text-xs text-pink-400 hover:text-pink-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        <div className="flex items-center gap-3">
-                          {/* Checkbox */}
-                          <div className={`w-5 h-5 rounded border-2 flex items-center justify-center shrink-0 transition-colors ${
-                            asset.selected ? 'bg-pink-500 border-pink-500' : 'border-gray-600'
-                          }`}>
-                            {asset.selected && (
-                              <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3">
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                              </svg>
-                            )}
-                          </div>
-
-                          {/* Token icon */}
-                          {asset.iconUrl ? (
-                            <img
-                              src={asset.iconUrl}
-                              alt={asset.name}
-                              className="w-8 h-8 rounded-full object-cover shrink-0"
-                              onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
-                            />
-                          ) : (
-                            <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 text-xs font-bold ${
-                              asset.type === 'LSP7' ? 'bg-blue-500/20 text-blue-400' : 'bg-purple-500/20 text-purple-400'
+                        Data
+                      </button>
+                    );
+                    const isFirstOfSource = index === 0 || !isSameAccount(listedAssets[index - 1].source, asset.source);
+                    return (
+                      <Fragment key={key}>
+                        {sources.length > 1 && isFirstOfSource && (
+                          <p className={`text-xs text-gray-500 flex items-center gap-2 ${index > 0 ? 'pt-2' : ''}`}>
+                            <span className="font-mono text-gray-300">{shortenAddress(asset.source)}</span>
+                            {source?.walletName}
+                          </p>
+                        )}
+                        <div
+                          onClick={() => !isTransferring && toggleAsset(key)}
+                          className={`p-4 rounded-xl border transition-all cursor-pointer ${
+                            asset.selected
+                              ? 'bg-pink-500/10 border-pink-500/30'
+                              : 'bg-gray-800/30 border-gray-700 hover:border-gray-600'
+                          } ${isTransferring ? 'cursor-default' : ''}`}
+                        >
+                          <div className="flex items-center gap-3">
+                            {/* Checkbox */}
+                            <div className={`w-5 h-5 rounded border-2 flex items-center justify-center shrink-0 transition-colors ${
+                              asset.selected ? 'bg-pink-500 border-pink-500' : 'border-gray-600'
                             }`}>
-                              {asset.symbol.slice(0, 2)}
+                              {asset.selected && (
+                                <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3">
+                                  <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                                </svg>
+                              )}
                             </div>
-                          )}
 
-                          {/* Token info */}
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2">
-                              <span className="text-white font-medium truncate">{asset.name}</span>
-                              <span className={`text-xs px-1.5 py-0.5 rounded font-medium ${
-                                asset.type === 'LSP7'
-                                  ? 'bg-blue-500/20 text-blue-400'
-                                  : 'bg-purple-500/20 text-purple-400'
-                              }`}>
-                                {asset.type}
-                              </span>
-                            </div>
-                            {asset.type === 'LSP7' ? (
-                              <div className="flex items-center gap-2 mt-1">
-                                <div className="relative flex items-center">
-                                  <input
-                                    type="text"
-                                    inputMode="decimal"
-                                    value={asset.transferAmount}
-                                    onChange={(e) => {
-                                      // Allow only valid decimal numbers
-                                      const val = e.target.value;
-                                      if (val === '' || /^\d*\.?\d*$/.test(val)) {
-                                        updateTransferAmount(asset.address, val);
-                                      }
+                            {/* Token icon */}
+                            {asset.type === 'LYX' ? (
+                              <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0 text-xs font-bold bg-pink-500/20 text-pink-400">
+                                {asset.symbol.slice(0, 2)}
+                              </div>
+                            ) : (
+                              <AssetImage
+                                src={asset.iconUrl}
+                                gatewayUrl={network.ipfsGatewayUrl}
+                                seed={asset.address}
+                                alt={asset.name}
+                                size={32}
+                                className="w-8 h-8 rounded-full object-cover shrink-0"
+                              />
+                            )}
+
+                            {/* Token info */}
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="text-white font-medium truncate">{asset.name}</span>
+                                <span className={`text-xs px-1.5 py-0.5 rounded font-medium ${
+                                  asset.type === 'LSP7'
+                                    ? 'bg-blue-500/20 text-blue-400'
+                                    : asset.type === 'LYX'
+                                      ? 'bg-pink-500/20 text-pink-400'
+                                      : 'bg-purple-500/20 text-purple-400'
+                                }`}>
+                                  {asset.type}
+                                </span>
+                                {asset.onChainStatus === 'corrected' && (
+                                  <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-yellow-500/20 text-yellow-400" title={asset.onChainNote}>
+                                    Corrected
+                                  </span>
+                                )}
+                                {asset.onChainStatus === 'unverified' && (
+                                  <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-gray-700 text-gray-400" title={asset.onChainNote}>
+                                    Unverified
+                                  </span>
+                                )}
+                                {simulation?.status === 'revert' && (
+                                  <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-red-500/20 text-red-400" title={simulation.details}>
+                                    Will revert
+                                  </span>
+                                )}
+                                {revertingTokens.length > 0 && (
+                                  <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-red-500/20 text-red-400">
+                                    {revertingTokens.length} will revert
+                                  </span>
+                                )}
+                                {asset.manual && (
+                                  <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-gray-700 text-gray-300">
+                                    Manual
+                                  </span>
+                                )}
+                                {asset.type !== 'LYX' && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      markAsset(asset, 'blocked');
                                     }}
-                                    onClick={(e) => e.stopPropagation()}
                                     disabled={isTransferring}
-                                    className="w-28 bg-gray-900/60 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                                    placeholder="0.0"
-                                  />
+                                    title="Hide this token and add it to your blocklist"
+                                    className="ml-auto text-xs text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50 shrink-0"
+                                  >
+                                    Spam
+                                  </button>
+                                )}
+                              </div>
+                              {asset.onChainStatus === 'corrected' && asset.onChainNote && (
+                                <p className="text-xs text-yellow-400/70 mt-0.5">{asset.onChainNote}</p>
+                              )}
+                              {simulation?.status === 'revert' && (
+                                <p className="text-xs text-red-400/80 mt-0.5 break-all" title={simulation.details}>{simulation.reason}</p>
+                              )}
+                              {revertingTokens.length > 0 && !isExpanded && (
+                                <p className="text-xs text-red-400/80 mt-0.5 break-all" title={revertingTokens[0].details}>
+                                  {revertingTokens[0].reason}
+                                </p>
+                              )}
+                              {asset.type !== 'LSP8' ? (
+                                <>
+                                  <div className="flex items-center gap-2 mt-1">
+                                    <div className="relative flex items-center">
+                                      <input
+                                        type="text"
+                                        inputMode="decimal"
+                                        value={asset.transferAmount}
+                                        onChange={(e) => {
+                                          // Allow only valid decimal numbers
+                                          const val = e.target.value;
+                                          if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                                            updateTransferAmount(key, val);
+                                          }
+                                        }}
+                                        onClick={(e) => e.stopPropagation()}
+                                        disabled={isTransferring}
+                                        className="w-28 bg-gray-900/60 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        placeholder="0.0"
+                                      />
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          setMaxAmount(key);
+                                        }}
+                                        disabled={isTransferring}
+                                        className="ml-1 text-xs text-pink-400 hover:text-pink-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                                      >
+                                        MAX
+                                      </button>
+                                      {asset.type === 'LYX' && (
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            setLyxMaxMinusGas(asset);
+                                          }}
+                                          disabled={isTransferring || reservingGas}
+                                          title="Send everything except what the queued transfers need for gas"
+                                          className="ml-2 text-xs text-pink-400 hover:text-pink-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                                        >
+                                          {reservingGas ? '...' : 'MAX − gas'}
+                                        </button>
+                                      )}
+                                    </div>
+                                    <span className="text-xs text-gray-500">
+                                      / {formatBalance(asset.balance, asset.decimals)} {asset.symbol}
+                                    </span>
+                                    {destinations.length > 1 && (
+                                      <>
+                                        <span className="text-xs text-gray-500">to</span>
+                                        <DestinationSelect
+                                          destinations={destinations}
+                                          value={asset.destinationId}
+                                          onChange={(id) => updateAssetDestination(key, id)}
+                                          disabled={isTransferring}
+                                          exclude={portionIds.slice(1)}
+                                        />
+                                        {portionIds.length < destinations.length && (
+                                          <button
+                                            onClick={(e) => {
+                                              e.stopPropagation();
+                                              addSplit(key);
+                                            }}
+                                            disabled={isTransferring}
+                                            title="Send part of this amount to another destination"
+                                            className="text-xs text-pink-400 hover:text-pink-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                                          >
+                                            Split
+                                          </button>
+                                        )}
+                                      </>
+                                    )}
+                                    {dataButton}
+                                  </div>
+                                  {(asset.amountSplits ?? []).map((split, index) => {
+                                    const splitStatus = statusFor(resolveDestination(destinations, split.destinationId)?.address);
+                                    return (
+                                      <div key={index} className="flex items-center gap-2 mt-1">
+                                        <input
+                                          type="text"
+                                          inputMode="decimal"
+                                          value={split.amount}
+                                          onChange={(e) => {
+                                            const val = e.target.value;
+                                            if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                                              updateSplit(key, index, { amount: val });
+                                            }
+                                          }}
+                                          onClick={(e) => e.stopPropagation()}
+                                          disabled={isTransferring}
+                                          className="w-28 bg-gray-900/60 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                          placeholder="0.0"
+                                        />
+                                        <span className="text-xs text-gray-500">to</span>
+                                        <DestinationSelect
+                                          destinations={destinations}
+                                          value={split.destinationId}
+                                          onChange={(id) => updateSplit(key, index, { destinationId: id })}
+                                          disabled={isTransferring}
+                                          exclude={portionIds.filter((_, i) => i !== index + 1)}
+                                        />
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            removeSplit(key, index);
+                                          }}
+                                          disabled={isTransferring}
+                                          className="text-xs text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50"
+                                        >
+                                          Remove
+                                        </button>
+                                        {splitStatus && <TransferStatusIndicator status={splitStatus} network={network} compact />}
+                                      </div>
+                                    );
+                                  })}
+                                  {asset.type === 'LYX' && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                      {lyxGasReserves[key] !== undefined
+                                        ? `Keeping ${formatBalance(lyxGasReserves[key].toString(), 18)} LYX for gas · sent after all token transfers`
+                                        : 'Sent after all token transfers'}
+                                    </p>
+                                  )}
+                                </>
+                              ) : (
+                                <div className="flex items-center gap-2 mt-1">
+                                  <p className="text-sm text-gray-400">
+                                    {asset.selectedTokenIds?.length ?? 0} of {asset.balance} NFT{parseInt(asset.balance) !== 1 ? 's' : ''} selected
+                                  </p>
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      toggleExpanded(key);
+                                    }}
+                                    className="text-xs text-pink-400 hover:text-pink-300 font-medium"
+                                  >
+                                    {isExpanded ? 'Hide tokens' : 'Choose tokens'}
+                                  </button>
+                                  {destinations.length > 1 && (
+                                    <>
+                                      <span className="text-xs text-gray-500">to</span>
+                                      <DestinationSelect
+                                        destinations={destinations}
+                                        value={asset.destinationId}
+                                        onChange={(id) => updateAssetDestination(key, id)}
+                                        disabled={isTransferring}
+                                      />
+                                    </>
+                                  )}
+                                  {dataButton}
+                                </div>
+                              )}
+                              {asset.transferData !== undefined && (
+                                <div className="flex items-center gap-2 mt-1">
+                                  <span className="text-xs text-gray-500 shrink-0">Data</span>
+                                  <TransferDataInput value={asset.transferData} onChange={(value) => updateAssetData(key, value)} disabled={isTransferring} />
                                   <button
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      setMaxAmount(asset.address);
+                                      updateAssetData(key, undefined);
                                     }}
                                     disabled={isTransferring}
-                                    className="ml-1 text-xs text-pink-400 hover:text-pink-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title="Use the migration's transfer data again"
+                                    className="text-xs text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50"
                                   >
-                                    MAX
+                                    Remove
                                   </button>
                                 </div>
-                                <span className="text-xs text-gray-500">
-                                  / {formatBalance(asset.balance, asset.decimals)} {asset.symbol}
+                              )}
+                            </div>
+
+                            {/* Transfer status */}
+                            {status && <TransferStatusIndicator status={status} network={network} />}
+                            {tokenStatuses.length > 0 && (
+                              <div className="shrink-0 flex items-center gap-2 text-xs">
+                                {tokenStatuses.some(s => s.status === 'transferring' || s.status === 'submitted') && (
+                                  <svg className="animate-spin h-4 w-4 text-pink-400" viewBox="0 0 24 24">
+                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                                  </svg>
+                                )}
+                                <span className="text-green-400">
+                                  {tokenStatuses.filter(s => s.status === 'confirmed').length}/{tokenStatuses.length}
                                 </span>
+                                {tokenStatuses.some(s => s.status === 'error' || s.status === 'reverted') && (
+                                  <span className="text-red-400">
+                                    {tokenStatuses.filter(s => s.status === 'error' || s.status === 'reverted').length} failed
+                                  </span>
+                                )}
                               </div>
-                            ) : (
-                              <p className="text-sm text-gray-400">
-                                {asset.balance} NFT{parseInt(asset.balance) !== 1 ? 's' : ''}
-                              </p>
                             )}
                           </div>
 
-                          {/* Transfer status */}
-                          {status && (
-                            <div className="shrink-0">
-                              {status.status === 'transferring' && (
-                                <svg className="animate-spin h-5 w-5 text-pink-400" viewBox="0 0 24 24">
-                                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                                </svg>
-                              )}
-                              {status.status === 'success' && (
-                                <svg className="w-5 h-5 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                                  <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                                </svg>
-                              )}
-                              {status.status === 'error' && (
-                                <div className="group relative">
-                                  <svg className="w-5 h-5 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                                    <path strokeLinecap="round" strokeLinejoin="round" d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                                  </svg>
-                                  {status.error && (
-                                    <div className="absolute right-0 bottom-full mb-2 w-48 p-2 bg-gray-800 border border-gray-700 rounded-lg text-xs text-red-400 hidden group-hover:block z-10">
-                                      {status.error}
+                          {/* Per-token selection (LSP8), as a gallery of the tokens' LSP4 images */}
+                          {asset.type === 'LSP8' && isExpanded && (
+                            <div className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-2">
+                              {(asset.tokenIds ?? []).map((tokenId) => {
+                                const isTokenSelected = asset.selectedTokenIds?.includes(tokenId) ?? false;
+                                const tokenStatus = tokenStatuses.find(s => s.tokenId === tokenId);
+                                const tokenDestinationId = asset.tokenDestinations?.[tokenId] ?? asset.destinationId;
+                                const tokenRevert = revertingTokens.find(r => r.tokenId === tokenId);
+                                const metadata = asset.tokenMetadata?.[tokenId];
+                                const attributes = metadata?.attributes?.map(a => `${a.key}: ${a.value}`).join(' · ');
+                                return (
+                                  <div
+                                    key={tokenId}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      if (!isTransferring) toggleTokenId(key, tokenId);
+                                    }}
+                                    title={[tokenId, attributes, tokenRevert && `Will revert: ${tokenRevert.reason}`].filter(Boolean).join('\n')}
+                                    className={`p-1.5 rounded-lg border flex flex-col gap-1.5 text-xs ${
+                                      isTokenSelected
+                                        ? 'bg-pink-500/10 border-pink-500/30'
+                                        : tokenRevert
+                                          ? 'bg-red-500/5 border-red-500/30'
+                                          : 'bg-gray-800/30 border-gray-700 hover:border-gray-600'
+                                    } ${isTransferring ? 'cursor-default' : 'cursor-pointer'}`}
+                                  >
+                                    <AssetImage
+                                      src={metadata?.imageUrl}
+                                      gatewayUrl={network.ipfsGatewayUrl}
+                                      seed={`${asset.address}-${tokenId}`}
+                                      alt={metadata?.name ?? formatTokenId(tokenId)}
+                                      size={160}
+                                      className="w-full aspect-square rounded-md object-cover bg-gray-900"
+                                    />
+                                    <div className="flex items-center gap-2">
+                                      <div className={`w-3.5 h-3.5 rounded border flex items-center justify-center shrink-0 ${
+                                        isTokenSelected ? 'bg-pink-500 border-pink-500' : 'border-gray-600'
+                                      }`}>
+                                        {isTokenSelected && (
+                                          <svg className="w-2.5 h-2.5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3">
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                                          </svg>
+                                        )}
+                                      </div>
+                                      <span className={`flex-1 min-w-0 truncate ${metadata?.name ? '' : 'font-mono'} ${tokenRevert ? 'text-red-400' : 'text-gray-300'}`}>
+                                        {metadata?.name ?? formatTokenId(tokenId)}
+                                      </span>
+                                      {tokenStatus && <TransferStatusIndicator status={tokenStatus} network={network} compact />}
                                     </div>
-                                  )}
-                                </div>
-                              )}
+                                    {attributes && <p className="text-gray-500 truncate">{attributes}</p>}
+                                    {destinations.length > 1 && isTokenSelected && (
+                                      <DestinationSelect
+                                        destinations={destinations}
+                                        value={tokenDestinationId}
+                                        onChange={(id) => updateTokenDestination(key, tokenId, id)}
+                                        disabled={isTransferring}
+                                      />
+                                    )}
+                                  </div>
+                                );
+                              })}
                             </div>
                           )}
                         </div>
-                      </div>
+                      </Fragment>
                     );
                   })}
                 </div>
+
+                {/* Suspected spam */}
+                {hiddenAssets.length > 0 && (
+                  <div className="mt-3">
+                    <button
+                      onClick={() => setShowHiddenAssets(v => !v)}
+                      className="w-full flex items-center justify-between text-xs text-gray-500 hover:text-gray-400 transition-colors"
+                    >
+                      <span>{hiddenAssets.length} hidden as suspected spam</span>
+                      <svg className={`w-4 h-4 transition-transform ${showHiddenAssets ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </button>
+                    {showHiddenAssets && (
+                      <div className="mt-2 space-y-2 max-h-60 overflow-y-auto pr-1">
+                        {hiddenAssets.map(asset => (
+                          <div key={assetKey(asset)} className="p-3 rounded-xl border border-gray-800 bg-gray-900/40 flex items-center gap-3 text-sm">
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="text-gray-300 truncate">{asset.name}</span>
+                                <span className="text-xs text-gray-500 shrink-0">{asset.symbol} · {asset.type}</span>
+                                {sources.length > 1 && <span className="text-xs text-gray-600 font-mono shrink-0">{shortenAddress(asset.source)}</span>}
+                              </div>
+                              <p className="text-xs text-gray-600 font-mono truncate">{asset.address}</p>
+                              <p className="text-xs text-yellow-400/80">{asset.spam?.join(' · ')}</p>
+                            </div>
+                            <button
+                              onClick={() => markAsset(asset, 'allowed')}
+                              disabled={isTransferring}
+                              title="Show this token again and add it to your allowlist"
+                              className="text-xs text-pink-400 hover:text-pink-300 font-medium disabled:opacity-50 shrink-0"
+                            >
+                              Not spam
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </>
             )}
 
+            {/* Manual token discovery */}
+            <div className="mt-4 pt-4 border-t border-gray-800">
+              <p className="text-gray-400 mb-2 text-sm">
+                Missing a token? Add its contract address to check it on-chain:
+              </p>
+              <div className="flex gap-2">
+                {sources.length > 1 && (
+                  <select
+                    value={manualTokenSource}
+                    onChange={(e) => { setManualTokenSource(e.target.value); setManualTokenError(''); }}
+                    disabled={isTransferring || addingToken}
+                    aria-label="Held by"
+                    className="bg-gray-800 border border-gray-700 rounded-xl px-2 py-2 text-white text-sm font-mono focus:outline-none focus:border-pink-500 disabled:opacity-50"
+                  >
+                    {sources.map(s => <option key={s.address} value={s.address}>{shortenAddress(s.address)}</option>)}
+                  </select>
+                )}
+                <input
+                  type="text"
+                  placeholder="0x... token contract"
+                  value={manualTokenAddress}
+                  onChange={(e) => { setManualTokenAddress(e.target.value); setManualTokenError(''); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddToken(); }}
+                  disabled={isTransferring || addingToken}
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-pink-500 transition-colors font-mono text-sm disabled:opacity-50"
+                />
+                <button
+                  onClick={handleAddToken}
+                  disabled={!manualTokenAddress || isTransferring || addingToken}
+                  className="border border-gray-600 text-gray-300 text-sm font-semibold py-2 px-4 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {addingToken ? 'Checking...' : 'Add'}
+                </button>
+              </div>
+              {manualTokenError && (
+                <p className="mt-2 text-xs text-red-400">{manualTokenError}</p>
+              )}
+            </div>
+
+            {/* Per-destination summary */}
+            {(destinations.length > 1 || plannedLegs.some(l => l.data !== '0x')) && plannedLegs.length > 0 && !isTransferring && (
+              <DestinationSummary destinations={destinations} legs={plannedLegs} />
+            )}
+
+            {/* LSP1 data */}
+            {plannedLegs.some(l => l.asset.type !== 'LYX') && (
+              <div className="mt-4">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-400 shrink-0">Transfer data</span>
+                  <TransferDataInput value={transferData} onChange={setTransferData} disabled={isTransferring} />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Optional. Passed as the <span className="font-mono">data</span> argument of every LSP7 / LSP8 transfer, and on to the
+                  universal receivers, unless an asset sets its own. Native LYX is sent without data.
+                </p>
+              </div>
+            )}
+
+            {/* One signature per source (EIP-5792) */}
+            {plannedLegs.length > 0 && atomicSources.length > 0 && (
+              <label className="mt-4 flex items-start gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={bundleCalls}
+                  onChange={(e) => setBundleCalls(e.target.checked)}
+                  disabled={isTransferring}
+                  className="mt-0.5 accent-pink-500"
+                />
+                <span>
+                  Sign all transfers of an account at once with <span className="font-mono">wallet_sendCalls</span> (EIP-5792). The bundle is atomic: if one transfer reverts, none go through.
+                </span>
+              </label>
+            )}
+
+            {/* Batching */}
+            {plannedLegs.length > 0 && (
+              <label className="mt-4 flex items-start gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={batchTransfers}
+                  onChange={(e) => setBatchTransfers(e.target.checked)}
+                  disabled={isTransferring}
+                  className="mt-0.5 accent-pink-500"
+                />
+                <span>
+                  Batch the transfers of each token contract with <span className="font-mono">transferBatch</span>
+                  {' '}· {walletPrompts} wallet prompt{walletPrompts !== 1 ? 's' : ''} for {plannedLegs.length} transfer{plannedLegs.length !== 1 ? 's' : ''}.
+                  {batchTransfers && ' A batch that fails its dry run is not sent.'}
+                </span>
+              </label>
+            )}
+
+            {/* Waiting for the wallet to switch to the next source, or back to
+                the account / network it left mid-queue */}
+            {accountPrompt && <AccountPromptNotice prompt={accountPrompt} network={network} />}
+
             {/* Transfer summary */}
             {transferStatuses.length > 0 && !isTransferring && (
               <div className={`mt-4 p-3 rounded-lg border text-sm ${
@@ -1105,45 +3129,197 @@ export default function Home() {
                   ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'
                   : 'bg-green-500/10 border-green-500/30 text-green-400'
               }`}>
-                {completedTransfers} of {transferStatuses.length} transfers completed
-                {failedTransfers > 0 && ` · ${failedTransfers} failed`}
+                <div className="flex items-center gap-3">
+                  <span className="flex-1">
+                    {completedTransfers} of {transferStatuses.length} transfers confirmed
+                    {failedTransfers > 0 && ` · ${failedTransfers} failed`}
+                  </span>
+                  {currentReport && (
+                    <>
+                      <button onClick={() => downloadReport(currentReport, 'csv')} className="text-xs underline hover:opacity-80">
+                        Download CSV
+                      </button>
+                      <button onClick={() => downloadReport(currentReport, 'json')} className="text-xs underline hover:opacity-80">
+                        JSON
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Gas cost preview */}
+            {sourceCosts.length > 0 && !isTransferring && feeData && (
+              <p className="mt-4 text-xs text-gray-400 flex justify-between gap-3">
+                <span>
+                  Estimated gas: ~{formatBalance(totalGasCost.toString(), 18)} LYX
+                  {sourceCosts.length > 1 && ` across ${sourceCosts.length} accounts`}
+                </span>
+                <span className="text-gray-500">at {formatBalance(feeData.gasPrice.toString(), 9)} gwei</span>
+              </p>
+            )}
+
+            {/* Not enough LYX for gas */}
+            {shortSources.length > 0 && !isTransferring && (
+              <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                {shortSources.map(cost => (
+                  <p key={cost.source} className="mb-1">
+                    <span className="font-mono">{shortenAddress(cost.source)}</span> has {formatBalance((cost.balance ?? BigInt(0)).toString(), 18)} LYX
+                    but needs about {formatBalance(cost.required.toString(), 18)} LYX for these transfers (gas with a safety margin, plus any LYX being sent):
+                    {' '}<span className="font-semibold">{formatBalance(cost.missing.toString(), 18)} LYX missing</span>.
+                    {fundingProfile && (
+                      <button
+                        onClick={() => handleTopUpGas(cost)}
+                        disabled={toppingUp !== null}
+                        className="ml-2 text-xs font-semibold text-pink-400 hover:text-pink-300 transition-colors disabled:opacity-50"
+                      >
+                        {toppingUp === cost.source ? 'Waiting for confirmation...' : `Top up from ${shortenAddress(fundingProfile.address)}`}
+                      </button>
+                    )}
+                  </p>
+                ))}
+                {topUpError && <p className="mb-1 text-xs">Top-up failed: {topUpError}</p>}
+                <div className="flex items-center gap-3 mt-2">
+                  <span className="flex-1 text-xs text-red-400/80">
+                    {fundingProfile
+                      ? 'Top up from your Universal Profile, send LYX to the account yourself, or trim the selection to what it can pay for.'
+                      : `Send LYX to ${shortSources.length > 1 ? 'these accounts' : 'this account'} first, or trim the selection to what it can pay for.`}
+                  </span>
+                  <button onClick={trimSelection} className="text-xs underline hover:opacity-80 shrink-0">
+                    Trim selection
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {!watchOnly && selectedCount > 0 && !isTransferring && (
+              <div className="mt-4 text-right">
+                <button onClick={handleCopyShareLink} className="text-xs text-gray-400 hover:text-gray-300 transition-colors">
+                  {linkCopied ? 'Link copied' : 'Copy a link to this selection'}
+                </button>
               </div>
             )}
 
             {/* Actions */}
+            {watchOnly ? (
+              <div className="flex gap-4 mt-6">
+                <button
+                  onClick={handleLeavePreview}
+                  className="flex-1 border border-gray-600 text-gray-400 font-semibold py-3 px-6 rounded-xl hover:bg-gray-800 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleReviewTransfers}
+                  disabled={selectedCount === 0 || destinations.length === 0}
+                  className="flex-1 border border-gray-600 text-gray-300 font-semibold py-3 px-6 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  Review Transactions
+                </button>
+                <button
+                  onClick={handleSignPreview}
+                  className="flex-1 font-semibold py-3 px-6 rounded-xl transition-all bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white transform hover:scale-[1.02]"
+                >
+                  Connect Wallet to Sign
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-4 mt-6">
+                <button
+                  onClick={() => { setStep(2); setTransferStatuses(prev => keepSentTransfers(prev)); }}
+                  disabled={isTransferring}
+                  className="flex-1 border border-gray-600 text-gray-400 font-semibold py-3 px-6 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleReviewTransfers}
+                  disabled={selectedCount === 0 || isTransferring || simulating || assets.length === 0 || shortSources.length > 0}
+                  className={`flex-1 font-semibold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-2 ${
+                    selectedCount > 0 && !isTransferring && shortSources.length === 0
+                      ? 'bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white transform hover:scale-[1.02]'
+                      : 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                  }`}
+                >
+                  {isTransferring ? (
+                    <>
+                      <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                      </svg>
+                      Transferring...
+                    </>
+                  ) : (
+                    `Review & Transfer ${selectedCount} Asset${selectedCount !== 1 ? 's' : ''}`
+                  )}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Review: every transaction before the wallet is asked to sign */}
+        {step === 3 && review && (
+          <div className="bg-gray-900/50 border border-gray-800 rounded-2xl p-8 backdrop-blur-sm">
+            <h2 className="text-2xl font-semibold mb-2 text-white">{watchOnly ? 'Preview: Review Transactions' : 'Review Transactions'}</h2>
+            <p className="text-gray-400 mb-6">
+              {review.plan.transactions.length} transaction{review.plan.transactions.length !== 1 ? 's' : ''} will be sent
+              {' '}for ~{review.plan.transactions.reduce((sum, tx) => sum + BigInt(tx.gas ?? '0x0'), BigInt(0)).toLocaleString()} gas.
+              {' '}Check each target contract, function and its arguments before signing.
+              {watchOnly && ' Export the plan and pass the file to the wallet owner, who loads it in Step 1 to sign it.'}
+            </p>
+            {(batchTransfers || bundleCalls) && !watchOnly && (
+              <p className="mb-4 text-xs text-gray-500">
+                {batchTransfers && 'A transferBatch that would revert is not sent; nothing but the transactions below is signed. '}
+                {bundleCalls && 'Wallets that support call bundles sign each account\'s transactions at once.'}
+              </p>
+            )}
+            {review.changes && (
+              <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+                <p className="font-medium mb-1">The transactions changed since you reviewed them — nothing was sent. Check the list below again.</p>
+                {review.changes.added.map((label, i) => <p key={`added-${i}`} className="text-xs">Added: {label}</p>)}
+                {review.changes.removed.map((label, i) => <p key={`removed-${i}`} className="text-xs">Removed: {label}</p>)}
+                {review.changes.added.length === 0 && review.changes.removed.length === 0 && <p className="text-xs">Their order changed.</p>}
+              </div>
+            )}
+            <TransactionReview plan={review.plan} network={network} labels={review.labels} />
+            {review.failed.length > 0 && (
+              <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+                <p className="font-medium mb-1">Not sent</p>
+                {review.failed.map((f, i) => <p key={i} className="text-xs">{f.label}: {f.error}</p>)}
+              </div>
+            )}
             <div className="flex gap-4 mt-6">
               <button
-                onClick={() => { setStep(2); setTransferStatuses([]); }}
-                disabled={isTransferring}
-                className="flex-1 border border-gray-600 text-gray-400 font-semibold py-3 px-6 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
+                onClick={() => setReview(null)}
+                className="flex-1 border border-gray-600 text-gray-400 font-semibold py-3 px-6 rounded-xl hover:bg-gray-800 transition-colors"
               >
                 Back
               </button>
               <button
-                onClick={handleTransferAll}
-                disabled={selectedCount === 0 || isTransferring || assets.length === 0}
-                className={`flex-1 font-semibold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-2 ${
-                  selectedCount > 0 && !isTransferring
-                    ? 'bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white transform hover:scale-[1.02]'
-                    : 'bg-gray-700 text-gray-500 cursor-not-allowed'
-                }`}
+                onClick={() => downloadPlan(review.plan)}
+                disabled={review.plan.transactions.length === 0}
+                className="flex-1 border border-gray-600 text-gray-300 font-semibold py-3 px-6 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50"
               >
-                {isTransferring ? (
-                  <>
-                    <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                    </svg>
-                    Transferring...
-                  </>
-                ) : (
-                  `Transfer ${selectedCount} Asset${selectedCount !== 1 ? 's' : ''}`
-                )}
+                Export Unsigned Plan
               </button>
+              {!watchOnly && (
+                <button
+                  onClick={handleConfirmReview}
+                  disabled={review.plan.transactions.length === 0}
+                  className="flex-1 font-semibold py-3 px-6 rounded-xl transition-all bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 text-white transform hover:scale-[1.02] disabled:opacity-50"
+                >
+                  Sign & Send
+                </button>
+              )}
             </div>
           </div>
         )}
 
+        <MigrationHistory history={history} onDelete={handleDeleteReport} />
+        <EndpointSettings network={network} overrides={endpointOverrides} onSave={handleSaveEndpoints} />
+        <TokenListSettings network={network} lists={tokenLists} onSave={handleUpdateTokenLists} />
+
         {/* Footer */}
         <div className="mt-12 text-center text-gray-600 text-xs space-y-1">
           <p>Powered by LUKSO</p>
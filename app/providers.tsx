@@ -2,17 +2,48 @@
 
 import * as React from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { WagmiProvider, createConfig, http } from 'wagmi';
-import { lukso } from 'wagmi/chains';
+import { WagmiProvider, createConfig, custom, http, type Transport } from 'wagmi';
+import { lukso, luksoTestnet } from 'wagmi/chains';
 import { injected } from 'wagmi/connectors';
+import { installMockEnvironment, isMockModeEnabled, parseMockScenario } from '@/lib/mock';
+import { loadEndpointOverrides, resolveNetwork, type NetworkId } from '@/lib/networks';
 
 const queryClient = new QueryClient();
 
+// Offline mode: swap the wallets, chain and indexer for scripted mocks.
+// Pick a scenario with ?scenario=happy|reject|revert|indexer-error
+const mock = typeof window !== 'undefined' && isMockModeEnabled()
+  ? installMockEnvironment(parseMockScenario(new URLSearchParams(window.location.search).get('scenario')))
+  : undefined;
+
+// Looks the RPC URL up on every request, so an override saved in the settings
+// panel applies without a reload. Each URL keeps its own http transport, and
+// with it viem's batching and retry state.
+function rpcTransport(id: NetworkId): Transport {
+  const rpcUrl = () => resolveNetwork(id, loadEndpointOverrides()).rpcUrl;
+  return params => {
+    const transports = new Map<string, ReturnType<Transport>>();
+    const current = () => {
+      const url = rpcUrl();
+      let transport = transports.get(url);
+      if (!transport) {
+        transport = http(url)(params);
+        transports.set(url, transport);
+      }
+      return transport;
+    };
+    return { ...current(), request: args => current().request(args) };
+  };
+}
+
+// Both networks are configured; the selector on the page decides which one
+// the app reads from and asks the wallet to switch to
 export const config = createConfig({
-  chains: [lukso],
+  chains: [lukso, luksoTestnet],
   connectors: [injected()],
   transports: {
-    [lukso.id]: http(),
+    [lukso.id]: mock ? custom(mock.chain) : rpcTransport('mainnet'),
+    [luksoTestnet.id]: mock ? custom(mock.chain) : rpcTransport('testnet'),
   },
   ssr: true,
 });
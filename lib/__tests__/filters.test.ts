@@ -0,0 +1,72 @@
+import { parseUnits } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ASSET_FILTER, filterAssets, getAssetProgress, isFilterActive } from '../filters';
+import type { TokenAsset, TransferStatus } from '../types';
+
+const SOURCE = '0x1111111111111111111111111111111111111111';
+const TOKEN_ID = (n: number) => `0x${n.toString(16).padStart(64, '0')}`;
+
+function asset(overrides: Partial<TokenAsset>): TokenAsset {
+  return {
+    source: SOURCE,
+    address: '0xa000000000000000000000000000000000000001',
+    name: 'Mock Token',
+    symbol: 'MOCK',
+    type: 'LSP7',
+    balance: '0',
+    decimals: 18,
+    selected: true,
+    transferAmount: '0',
+    ...overrides,
+  };
+}
+
+const mock = asset({ balance: parseUnits('1000', 18).toString() });
+const stale = asset({ address: '0xa000000000000000000000000000000000000002', name: 'stale Token', symbol: 'STALE', decimals: 6, balance: parseUnits('5000', 6).toString(), selected: false });
+const collection = asset({
+  address: '0xb000000000000000000000000000000000000001', name: 'Collectibles', symbol: 'MCOL', type: 'LSP8', decimals: 0,
+  balance: '3', tokenIds: [1, 2, 3].map(TOKEN_ID), selectedTokenIds: [TOKEN_ID(1)],
+});
+const assets = [mock, stale, collection];
+
+describe('filterAssets', () => {
+  it('shows everything in indexer order by default', () => {
+    expect(filterAssets(assets, DEFAULT_ASSET_FILTER, [])).toEqual(assets);
+    expect(isFilterActive(DEFAULT_ASSET_FILTER)).toBe(false);
+  });
+
+  it('searches name, symbol and contract address', () => {
+    const search = (query: string) => filterAssets(assets, { ...DEFAULT_ASSET_FILTER, query }, []).map(a => a.symbol);
+    expect(search('token')).toEqual(['MOCK', 'STALE']);
+    expect(search(' mcol ')).toEqual(['MCOL']);
+    expect(search('0xA0000000000000000000000000000000000000')).toEqual(['MOCK', 'STALE']);
+    expect(search('nothing')).toEqual([]);
+  });
+
+  it('filters by standard and by selection', () => {
+    expect(filterAssets(assets, { ...DEFAULT_ASSET_FILTER, standard: 'LSP8' }, [])).toEqual([collection]);
+    expect(filterAssets(assets, { ...DEFAULT_ASSET_FILTER, state: 'unselected' }, [])).toEqual([stale]);
+    expect(isFilterActive({ ...DEFAULT_ASSET_FILTER, state: 'selected' })).toBe(true);
+  });
+
+  it('filters by transfer status', () => {
+    const statuses: TransferStatus[] = [
+      { from: SOURCE, address: mock.address, status: 'confirmed' },
+      { from: SOURCE, address: collection.address, tokenId: TOKEN_ID(1), status: 'confirmed' },
+      { from: SOURCE, address: collection.address, tokenId: TOKEN_ID(2), status: 'reverted' },
+    ];
+    expect(filterAssets(assets, { ...DEFAULT_ASSET_FILTER, state: 'confirmed' }, statuses)).toEqual([mock]);
+    expect(filterAssets(assets, { ...DEFAULT_ASSET_FILTER, state: 'failed' }, statuses)).toEqual([collection]);
+    // Another source's statuses don't count
+    expect(getAssetProgress(stale, [{ from: '0x5555555555555555555555555555555555555555', address: stale.address, status: 'confirmed' }])).toBeUndefined();
+  });
+
+  it('sorts by name, balance in whole units and token count', () => {
+    const sorted = (sort: 'name' | 'balance' | 'tokens') => filterAssets(assets, { ...DEFAULT_ASSET_FILTER, sort }, []).map(a => a.symbol);
+    expect(sorted('name')).toEqual(['MCOL', 'MOCK', 'STALE']);
+    expect(sorted('balance')).toEqual(['STALE', 'MOCK', 'MCOL']);
+    expect(sorted('tokens')).toEqual(['MCOL', 'MOCK', 'STALE']);
+    // The list passed in is left alone
+    expect(assets.map(a => a.symbol)).toEqual(['MOCK', 'STALE', 'MCOL']);
+  });
+});
@@ -0,0 +1,480 @@
+import { createPublicClient, custom, parseUnits, type Address, type PublicClient } from 'viem';
+import { lukso } from 'viem/chains';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_TRANSFER_GAS, LSP7_READ_ABI } from '../constants';
+import { fetchTokensForAddress } from '../indexer';
+import {
+  MOCK_LSP7_TOKENS,
+  MOCK_SECOND_SOURCE_ADDRESS,
+  MOCK_SECOND_UP_ADDRESS,
+  MOCK_SOURCE_ADDRESS,
+  MOCK_UP_ADDRESS,
+  MOCK_UP_LYX_BALANCE,
+  createMockChain,
+  createMockIndexerFetch,
+  createMockWallet,
+  type MockScenario,
+} from '../mock';
+import {
+  getWalletMismatch,
+  hasAccount,
+  requestAccountSwitch,
+  sendViaProvider,
+  supportsAtomicBatch,
+  waitForReceipt,
+  waitForWalletContext,
+  type WalletMismatch,
+} from '../wallets';
+import { NETWORKS } from '../networks';
+import { checkDestination, discoverTokenOnChain, verifyAssetsOnChain } from '../onchain';
+import {
+  BATCH_REVERTS_ERROR,
+  QUEUE_STOPPED_ERROR,
+  deselectReverting,
+  estimateSourceCosts,
+  executeBundle,
+  executeTransfers,
+  initialTransferStatuses,
+  planCalls,
+  planLegs,
+  planTransfers,
+  simulateTransfers,
+  createNativeLyxAsset,
+  type TransferRef,
+} from '../transfers';
+import { transferKey } from '../destinations';
+import { groupLegsBySource } from '../sources';
+import { EMPTY_TOKEN_LISTS, applySpamFilter } from '../spam';
+import { applySharedPlan, createSharedPlan, parseShareParams, toShareParams, type SharedPlan } from '../share';
+import {
+  buildTransactionPlan,
+  decodeTransaction,
+  executePlan,
+  parseTransactionPlan,
+  planToJson,
+  type PlanTransactionStatus,
+  type TransactionPlan,
+} from '../txplan';
+import type { Destination, TokenAsset, TransferLeg, TransferStatus } from '../types';
+
+// Drives the same sequence as app/page.tsx — connect, check the destination,
+// scan, filter spam, verify, simulate, transfer — against the offline mock environment.
+async function setup(scenario: MockScenario) {
+  const chain = createMockChain(scenario);
+  const wallet = createMockWallet(chain, [MOCK_SOURCE_ADDRESS, MOCK_SECOND_SOURCE_ADDRESS]);
+  const client = createPublicClient({ chain: lukso, transport: custom(chain) }) as PublicClient;
+  vi.stubGlobal('fetch', createMockIndexerFetch(scenario, fetch));
+  return { chain, wallet, client };
+}
+
+// force = false is used for verified profiles that register the transfer via LSP1
+function destination(id: string, address: string, force: boolean): Destination {
+  return { id, address, label: id, connected: false, check: { status: 'verified' }, registerWithLSP1: !force };
+}
+
+async function scanAndPrepare(client: PublicClient, force: boolean, source: Address = MOCK_SOURCE_ADDRESS) {
+  const { tokens } = await fetchTokensForAddress(source);
+  const filtered = applySpamFilter(tokens, EMPTY_TOKEN_LISTS, 'mainnet');
+  const lyxBalance = await client.getBalance({ address: source });
+  const verified = await verifyAssetsOnChain(client, source, [createNativeLyxAsset(source, lyxBalance), ...filtered]);
+  const simulations = await simulateTransfers(client, planTransfers(verified, [destination('main', MOCK_UP_ADDRESS, force)]));
+  return { assets: deselectReverting(verified, simulations), simulations };
+}
+
+async function transfer(
+  wallet: ReturnType<typeof createMockWallet>,
+  assets: TokenAsset[],
+  destinations: Destination[],
+  batch?: { gasFor: (leg: TransferLeg) => bigint },
+  bundle = false,
+) {
+  const legs = planLegs(assets, destinations);
+  let statuses = initialTransferStatuses(legs);
+  // One wallet account per source, switched to before its transfers like the app does
+  for (const group of groupLegsBySource(legs)) {
+    if (!(await hasAccount(wallet, group.source))) {
+      const switched = waitForWalletContext(wallet, group.source, lukso.id, new AbortController().signal);
+      await requestAccountSwitch(wallet);
+      await switched;
+    }
+    const options = {
+      provider: wallet,
+      legs: group.legs,
+      onStatus: (ref: TransferRef, update: Partial<TransferStatus>) => {
+        statuses = statuses.map((s): TransferStatus => transferKey(s) === transferKey(ref) ? { ...s, ...update } : s);
+      },
+      batch,
+    };
+    await (bundle ? executeBundle({ ...options, chainId: '0x2a' }) : executeTransfers(options));
+  }
+  return statuses;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Step 1 — source wallet', () => {
+  it('exposes the source account on LUKSO mainnet', async () => {
+    const { wallet } = await setup('happy');
+    expect(await wallet.request({ method: 'eth_requestAccounts' })).toEqual([MOCK_SOURCE_ADDRESS]);
+    expect(await wallet.request({ method: 'eth_chainId' })).toBe('0x2a');
+  });
+
+  it('switches to LUKSO Testnet and refuses unknown chains', async () => {
+    const { wallet } = await setup('happy');
+    await wallet.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: NETWORKS.testnet.chainParams.chainId }] });
+    expect(await wallet.request({ method: 'eth_chainId' })).toBe('0x1069');
+    await expect(wallet.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x1' }] })).rejects.toMatchObject({ code: 4902 });
+  });
+});
+
+describe('Step 2 — destination check', () => {
+  it('recognises the Universal Profile and rejects plain accounts', async () => {
+    const { client } = await setup('happy');
+    expect((await checkDestination(client, MOCK_UP_ADDRESS)).status).toBe('verified');
+    expect((await checkDestination(client, MOCK_SOURCE_ADDRESS)).status).toBe('eoa');
+    expect((await checkDestination(client, MOCK_LSP7_TOKENS[0].address)).status).toBe('contract');
+    expect((await checkDestination(client, '0x1234')).status).toBe('invalid');
+  });
+});
+
+describe('Step 3 — scan and transfer', () => {
+  it('verifies balances and deselects transfers that would revert', async () => {
+    const { client } = await setup('happy');
+    const { assets, simulations } = await scanAndPrepare(client, false);
+
+    const stale = assets.find(a => a.symbol === 'STALE')!;
+    expect(stale.onChainStatus).toBe('corrected');
+    expect(stale.balance).toBe(parseUnits('120', 6).toString());
+
+    const badge = assets.find(a => a.symbol === 'BADGE')!;
+    expect(badge.selected).toBe(false);
+    expect(simulations.find(s => s.address === badge.address)).toMatchObject({
+      status: 'revert',
+      reason: 'Token is non-transferable',
+    });
+    expect(assets.find(a => a.type === 'LYX')?.selected).toBe(false);
+
+    const spam = assets.find(a => a.symbol === 'CLAIM')!;
+    expect(spam).toMatchObject({ selected: false, spam: ['Name looks like a link or an airdrop lure'] });
+  });
+
+  it('keeps the picked token IDs that are still held when the indexer is out of date', async () => {
+    const { client } = await setup('happy');
+    const { tokens } = await fetchTokensForAddress(MOCK_SOURCE_ADDRESS);
+    const collection = tokens.find(a => a.type === 'LSP8')!;
+    const [first, second, third] = collection.tokenIds!;
+    const gone = `0x${'f'.repeat(64)}`;
+    const stale = { ...collection, tokenIds: [first, second, gone], selectedTokenIds: [second, gone] };
+
+    const [verified] = await verifyAssetsOnChain(client, MOCK_SOURCE_ADDRESS, [stale]);
+
+    expect(verified).toMatchObject({ onChainStatus: 'corrected', tokenIds: [first, second, third], selected: true, selectedTokenIds: [second] });
+  });
+
+  it('decodes LSP1 errors when force is false and the receiver is an EOA', async () => {
+    const { client } = await setup('happy');
+    const { tokens } = await fetchTokensForAddress(MOCK_SOURCE_ADDRESS);
+    const [result] = await simulateTransfers(client, planTransfers(tokens.slice(0, 1), [destination('eoa', '0x3333333333333333333333333333333333333333', false)]));
+    expect(result.status).toBe('revert');
+    expect(result.reason).toMatch(/^LSP7NotifyTokenReceiverIsEOA\(/);
+  });
+
+  it('confirms every transfer on the happy path', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    const { assets } = await scanAndPrepare(client, false);
+    const withLyx = assets.map(a => a.type === 'LYX' ? { ...a, selected: true, transferAmount: '1' } : a);
+
+    const statuses = await transfer(wallet, withLyx, [destination('main', MOCK_UP_ADDRESS, false)]);
+
+    expect(statuses).toHaveLength(6); // MOCK, STALE, 3 × MCOL, LYX
+    expect(statuses.every(s => s.status === 'confirmed' && s.txHash)).toBe(true);
+    expect(chain.transactions.at(-1)).toMatchObject({ to: MOCK_UP_ADDRESS, value: parseUnits('1', 18) });
+    expect(await client.getBalance({ address: MOCK_UP_ADDRESS })).toBe(MOCK_UP_LYX_BALANCE + parseUnits('1', 18));
+  });
+
+  it('routes assets, token ids and split amounts to several profiles', async () => {
+    const { wallet, client } = await setup('happy');
+    const { assets } = await scanAndPrepare(client, false);
+    const [, second] = assets.find(a => a.type === 'LSP8')!.tokenIds!;
+    const routed = assets.map((a): TokenAsset => {
+      if (a.symbol === 'MOCK') return { ...a, transferAmount: '600', amountSplits: [{ destinationId: 'second', amount: '400' }] };
+      if (a.symbol === 'STALE') return { ...a, destinationId: 'second' };
+      if (a.type === 'LSP8') return { ...a, tokenDestinations: { [second]: 'second' } };
+      return a;
+    });
+
+    const statuses = await transfer(wallet, routed, [
+      destination('main', MOCK_UP_ADDRESS, false),
+      destination('second', MOCK_SECOND_UP_ADDRESS, false),
+    ]);
+
+    expect(statuses.every(s => s.status === 'confirmed')).toBe(true);
+    expect(statuses.filter(s => s.to === MOCK_SECOND_UP_ADDRESS)).toHaveLength(3); // 400 MOCK, STALE, 1 × MCOL
+    const balanceOf = (owner: Address) =>
+      client.readContract({ address: MOCK_LSP7_TOKENS[0].address, abi: LSP7_READ_ABI, functionName: 'balanceOf', args: [owner] });
+    expect(await balanceOf(MOCK_UP_ADDRESS)).toBe(parseUnits('600', 18));
+    expect(await balanceOf(MOCK_SECOND_UP_ADDRESS)).toBe(parseUnits('400', 18));
+  });
+
+  it('signs a selection prepared in a watch-only preview and shared as a link', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    // Support previews the source without its wallet and picks what to move
+    const { assets: previewed } = await scanAndPrepare(client, false);
+    const [, second] = previewed.find(a => a.type === 'LSP8')!.tokenIds!;
+    const picked = previewed.map((a): TokenAsset => {
+      if (a.symbol === 'MOCK') return { ...a, transferAmount: '100' };
+      if (a.type === 'LSP8') return { ...a, selectedTokenIds: [second] };
+      return { ...a, selected: false };
+    });
+    const link = toShareParams(createSharedPlan('mainnet', [MOCK_SOURCE_ADDRESS], [destination('preview', MOCK_UP_ADDRESS, false)], picked));
+
+    // The owner opens the link, connects the wallet and scans again
+    const { plan } = parseShareParams(new URLSearchParams(link.toString())) as { plan: SharedPlan };
+    const { assets } = await scanAndPrepare(client, false);
+    const destinations = [destination('main', plan.destinations[0], false)];
+    const statuses = await transfer(wallet, applySharedPlan(assets, plan, destinations), destinations);
+
+    expect(statuses.map(s => [s.address, s.amount ?? s.tokenId])).toEqual([
+      [MOCK_LSP7_TOKENS[0].address, '100'],
+      [previewed.find(a => a.type === 'LSP8')!.address, second],
+    ]);
+    expect(statuses.every(s => s.status === 'confirmed')).toBe(true);
+    expect(chain.transactions).toHaveLength(2);
+  });
+
+  it('replays an exported plan of unsigned transactions with another wallet session', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    // Prepared and reviewed without the wallet, then exported as a file
+    const { assets } = await scanAndPrepare(client, false);
+    const legs = planLegs(assets, [destination('main', MOCK_UP_ADDRESS, false)]);
+    const { calls } = planCalls(legs, { gasFor: () => DEFAULT_TRANSFER_GAS });
+    const exported = planToJson(buildTransactionPlan(NETWORKS.mainnet, calls, () => DEFAULT_TRANSFER_GAS));
+
+    // The owner imports the file and signs it
+    const { plan } = parseTransactionPlan(exported) as { plan: TransactionPlan };
+    expect(plan.transactions.map(tx => decodeTransaction(tx).functionName)).toEqual(['transfer', 'transfer', 'transferBatch']);
+    // Nothing is sent while the wallet is on another network than the plan's
+    const refused: PlanTransactionStatus[] = plan.transactions.map(() => ({ status: 'pending' }));
+    chain.chainId = NETWORKS.testnet.chain.id;
+    await executePlan({
+      provider: wallet,
+      transactions: plan.transactions,
+      onStatus: (index, update) => { refused[index] = { ...refused[index], ...update }; },
+    });
+    chain.chainId = NETWORKS.mainnet.chain.id;
+    expect(refused.every(s => s.status === 'error' && s.error === 'The wallet is on chain 4201, not the plan\'s chain 42.')).toBe(true);
+    expect(chain.transactions).toEqual([]);
+
+    const statuses: PlanTransactionStatus[] = plan.transactions.map(() => ({ status: 'pending' }));
+    await executePlan({
+      provider: wallet,
+      transactions: plan.transactions,
+      onStatus: (index, update) => { statuses[index] = { ...statuses[index], ...update }; },
+    });
+
+    expect(statuses.every(s => s.status === 'confirmed')).toBe(true);
+    expect(chain.transactions.map(tx => [tx.to, tx.data])).toEqual(plan.transactions.map(tx => [tx.to, tx.data]));
+  });
+
+  it('sends the token ids of a collection in one transferBatch', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    const { assets } = await scanAndPrepare(client, false);
+    const collection = assets.filter(a => a.type === 'LSP8');
+
+    const statuses = await transfer(wallet, collection, [destination('main', MOCK_UP_ADDRESS, false)], { gasFor: () => BigInt(120_000) });
+
+    expect(chain.transactions).toHaveLength(1);
+    expect(statuses).toHaveLength(3);
+    expect(statuses.every(s => s.status === 'confirmed' && s.txHash === chain.transactions[0].hash)).toBe(true);
+  });
+
+  it('does not send a batch that would revert, nor split it into transfers that were not reviewed', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    const { assets } = await scanAndPrepare(client, false);
+    const [, second] = assets.find(a => a.type === 'LSP8')!.tokenIds!;
+    // One token goes to an EOA with force = false, which reverts the whole batch
+    const collection = assets
+      .filter(a => a.type === 'LSP8')
+      .map(a => ({ ...a, tokenDestinations: { [second]: 'eoa' } }));
+
+    const statuses = await transfer(wallet, collection, [
+      destination('main', MOCK_UP_ADDRESS, false),
+      destination('eoa', '0x3333333333333333333333333333333333333333', false),
+    ], { gasFor: () => BigInt(120_000) });
+
+    expect(chain.transactions).toHaveLength(0);
+    expect(statuses.every(s => s.status === 'error' && s.error === BATCH_REVERTS_ERROR)).toBe(true);
+  });
+
+  it('sends everything as one atomic call bundle when the wallet supports EIP-5792', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    expect(await supportsAtomicBatch(wallet, MOCK_SOURCE_ADDRESS, '0x2a')).toBe(true);
+    expect(await supportsAtomicBatch(chain, MOCK_SOURCE_ADDRESS, '0x2a')).toBe(false);
+    const { assets } = await scanAndPrepare(client, false);
+    const withLyx = assets.map(a => a.type === 'LYX' ? { ...a, selected: true, transferAmount: '1' } : a);
+
+    const statuses = await transfer(wallet, withLyx, [destination('main', MOCK_UP_ADDRESS, false)], { gasFor: () => BigInt(120_000) }, true);
+
+    expect(chain.transactions).toHaveLength(1);
+    expect(chain.transactions[0].calls).toHaveLength(4); // MOCK, STALE, MCOL transferBatch, LYX
+    expect(statuses).toHaveLength(6);
+    expect(statuses.every(s => s.status === 'confirmed' && s.txHash === chain.transactions[0].hash)).toBe(true);
+    expect(await client.getBalance({ address: MOCK_UP_ADDRESS })).toBe(MOCK_UP_LYX_BALANCE + parseUnits('1', 18));
+  });
+
+  it('reverts the whole call bundle when one of its transfers reverts', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    const { assets } = await scanAndPrepare(client, false);
+    const routed = assets.map(a => a.symbol === 'STALE' ? { ...a, destinationId: 'eoa' } : a);
+
+    const statuses = await transfer(wallet, routed, [
+      destination('main', MOCK_UP_ADDRESS, false),
+      destination('eoa', '0x3333333333333333333333333333333333333333', false),
+    ], undefined, true);
+
+    expect(chain.transactions).toHaveLength(1);
+    expect(statuses.every(s => s.status === 'reverted')).toBe(true);
+    const balance = await client.readContract({
+      address: MOCK_LSP7_TOKENS[0].address, abi: LSP7_READ_ABI, functionName: 'balanceOf', args: [MOCK_UP_ADDRESS],
+    });
+    expect(balance).toBe(BigInt(0));
+  });
+
+  it('migrates several source accounts, switching the wallet account between them', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    const first = await scanAndPrepare(client, false);
+    const second = await scanAndPrepare(client, false, MOCK_SECOND_SOURCE_ADDRESS);
+    expect(second.assets.filter(a => a.type !== 'LYX').map(a => a.symbol)).toEqual(['MOCK']);
+    expect(second.assets.every(a => a.source === MOCK_SECOND_SOURCE_ADDRESS)).toBe(true);
+
+    const statuses = await transfer(wallet, [...first.assets, ...second.assets], [destination('main', MOCK_UP_ADDRESS, false)]);
+
+    expect(statuses.every(s => s.status === 'confirmed')).toBe(true);
+    expect(statuses.filter(s => s.from === MOCK_SECOND_SOURCE_ADDRESS)).toHaveLength(1);
+    expect(chain.transactions.at(-1)?.from).toBe(MOCK_SECOND_SOURCE_ADDRESS);
+    const balance = await client.readContract({
+      address: MOCK_LSP7_TOKENS[0].address, abi: LSP7_READ_ABI, functionName: 'balanceOf', args: [MOCK_UP_ADDRESS],
+    });
+    expect(balance).toBe(parseUnits('1250', 18));
+  });
+
+  it('refuses to sign for a source the wallet is not switched to', async () => {
+    const { wallet, client } = await setup('happy');
+    const { assets } = await scanAndPrepare(client, false, MOCK_SECOND_SOURCE_ADDRESS);
+    const legs = planLegs(assets, [destination('main', MOCK_UP_ADDRESS, false)]);
+    const errors: Array<string | undefined> = [];
+
+    await executeTransfers({ provider: wallet, legs, onStatus: (_, update) => errors.push(update.error) });
+
+    expect(await hasAccount(wallet, MOCK_SECOND_SOURCE_ADDRESS)).toBe(false);
+    expect(errors.filter(Boolean)).toHaveLength(legs.length);
+  });
+
+  it('pauses the queue until the wallet is back on the source account', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    const { assets } = await scanAndPrepare(client, false);
+    const legs = planLegs(assets, [destination('main', MOCK_UP_ADDRESS, false)]);
+    const mismatches: WalletMismatch[] = [];
+    let statuses = initialTransferStatuses(legs);
+
+    await executeTransfers({
+      provider: wallet,
+      legs,
+      onStatus: (ref, update) => {
+        statuses = statuses.map((s): TransferStatus => transferKey(s) === transferKey(ref) ? { ...s, ...update } : s);
+        // The user picks another account in the wallet after the first confirmation
+        if (update.status === 'confirmed' && mismatches.length === 0) wallet.switchAccount(MOCK_SECOND_SOURCE_ADDRESS);
+      },
+      beforeSend: async () => {
+        await waitForWalletContext(wallet, MOCK_SOURCE_ADDRESS, lukso.id, new AbortController().signal, mismatch => {
+          mismatches.push(mismatch);
+          wallet.switchAccount(MOCK_SOURCE_ADDRESS);
+        });
+        return true;
+      },
+    });
+
+    expect(mismatches).toEqual(['account']);
+    expect(statuses.every(s => s.status === 'confirmed')).toBe(true);
+    expect(chain.transactions.every(tx => tx.from === MOCK_SOURCE_ADDRESS)).toBe(true);
+  });
+
+  it('stops the queue when the wallet leaves the network', async () => {
+    const { chain, wallet, client } = await setup('happy');
+    const { assets } = await scanAndPrepare(client, false);
+    const legs = planLegs(assets, [destination('main', MOCK_UP_ADDRESS, false)]);
+    let statuses = initialTransferStatuses(legs);
+
+    await executeTransfers({
+      provider: wallet,
+      legs,
+      onStatus: (ref, update) => {
+        statuses = statuses.map((s): TransferStatus => transferKey(s) === transferKey(ref) ? { ...s, ...update } : s);
+        if (update.status === 'confirmed') {
+          wallet.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: NETWORKS.testnet.chainParams.chainId }] });
+        }
+      },
+      // Like the user clicking "Stop the queue" on the prompt
+      beforeSend: async () => !(await getWalletMismatch(wallet, MOCK_SOURCE_ADDRESS, lukso.id)),
+    });
+
+    expect(chain.transactions).toHaveLength(1);
+    expect(statuses[0].status).toBe('confirmed');
+    expect(statuses.slice(1).every(s => s.status === 'error' && s.error === QUEUE_STOPPED_ERROR)).toBe(true);
+  });
+
+  it('tops up a source without LYX from the profile', async () => {
+    const { chain, wallet, client } = await setup('no-gas');
+    const { assets } = await scanAndPrepare(client, false);
+    const destinations = [destination('main', MOCK_UP_ADDRESS, false)];
+    const legs = planLegs(assets, destinations);
+    const gasPrice = await client.getGasPrice();
+    const costs = async () => estimateSourceCosts(legs, () => DEFAULT_TRANSFER_GAS, gasPrice, {
+      [MOCK_SOURCE_ADDRESS]: await client.getBalance({ address: MOCK_SOURCE_ADDRESS }),
+    });
+
+    const [short] = await costs();
+    expect(short.balance).toBe(BigInt(0));
+    expect(short.missing).toBe(short.required);
+
+    const upWallet = createMockWallet(chain, [MOCK_UP_ADDRESS]);
+    const txHash = await sendViaProvider(upWallet, MOCK_UP_ADDRESS, MOCK_SOURCE_ADDRESS, '0x', short.missing);
+    expect(await waitForReceipt(upWallet, txHash)).toBe('confirmed');
+    const [funded] = await costs();
+    expect(funded.missing).toBe(BigInt(0));
+
+    const statuses = await transfer(wallet, assets, destinations);
+    expect(statuses.every(s => s.status === 'confirmed')).toBe(true);
+  });
+
+  it('marks every transfer as an error when the user rejects', async () => {
+    const { chain, wallet, client } = await setup('reject');
+    const { assets } = await scanAndPrepare(client, true);
+
+    const statuses = await transfer(wallet, assets, [destination('main', MOCK_UP_ADDRESS, true)]);
+
+    expect(chain.transactions).toHaveLength(0);
+    expect(statuses.every(s => s.status === 'error' && s.error === 'User rejected the request.')).toBe(true);
+  });
+
+  it('reports reverted receipts', async () => {
+    const { wallet, client } = await setup('revert');
+    const { assets } = await scanAndPrepare(client, true);
+
+    const statuses = await transfer(wallet, assets, [destination('main', MOCK_UP_ADDRESS, true)]);
+
+    expect(statuses.length).toBeGreaterThan(0);
+    expect(statuses.every(s => s.status === 'reverted' && s.error === 'Transaction reverted')).toBe(true);
+  });
+
+  it('falls back to adding tokens by address when the indexer is down', async () => {
+    const { client } = await setup('indexer-error');
+    await expect(fetchTokensForAddress(MOCK_SOURCE_ADDRESS)).rejects.toThrow();
+
+    const token = await discoverTokenOnChain(client, MOCK_SOURCE_ADDRESS, MOCK_LSP7_TOKENS[0].address);
+    expect(token).toMatchObject({ name: 'Mock Token', symbol: 'MOCK', type: 'LSP7', manual: true });
+    expect(token.balance).toBe(MOCK_LSP7_TOKENS[0].balance.toString());
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { formatBalance, formatTokenId, formatTransferData, getErrorMessage } from '../format';
+import { isUPWallet } from '../wallets';
+
+describe('formatBalance', () => {
+  it('formats by magnitude', () => {
+    expect(formatBalance('0', 18)).toBe('0');
+    expect(formatBalance('10000000000000', 18)).toBe('<0.0001');
+    expect(formatBalance('500000000000000000', 18)).toBe('0.5000');
+    expect(formatBalance('120000000', 6)).toBe('120.00');
+    expect(formatBalance('1234567000000000000000000', 18)).toBe('1,234,567');
+  });
+
+  it('handles tokens without decimals', () => {
+    expect(formatBalance('3', 0)).toBe('3.00');
+  });
+});
+
+describe('formatTokenId', () => {
+  it('shows small numeric ids as #n', () => {
+    expect(formatTokenId(`0x${'0'.repeat(63)}7`)).toBe('#7');
+  });
+
+  it('shortens hash-like ids', () => {
+    const tokenId = `0x${'ab'.repeat(32)}`;
+    expect(formatTokenId(tokenId)).toBe('0xabab...abab');
+  });
+});
+
+describe('formatTransferData', () => {
+  it('shows memos as text and other data as hex', () => {
+    expect(formatTransferData('0x')).toBe('none');
+    expect(formatTransferData('0x6869')).toBe('"hi"');
+    expect(formatTransferData('0x00ff')).toBe('0x00ff (2 bytes)');
+    expect(formatTransferData(`0x${'00'.repeat(32)}`)).toBe('0x0000000000...00000000 (32 bytes)');
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('prefers the short message', () => {
+    expect(getErrorMessage({ shortMessage: 'short', message: 'long' })).toBe('short');
+    expect(getErrorMessage(new Error('boom'))).toBe('boom');
+    expect(getErrorMessage(undefined, 'fallback')).toBe('fallback');
+  });
+});
+
+describe('isUPWallet', () => {
+  it('matches Universal Profile extensions by name or rdns', () => {
+    expect(isUPWallet('io.universaleverything.universalprofile')).toBe(true);
+    expect(isUPWallet('Universal Profiles')).toBe(true);
+    expect(isUPWallet('network.lukso')).toBe(true);
+    expect(isUPWallet('io.metamask')).toBe(false);
+    expect(isUPWallet('Rabby Wallet')).toBe(false);
+  });
+});
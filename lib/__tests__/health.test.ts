@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkNetworkHealth, checkRpc } from '../health';
+import { createMockIndexerFetch } from '../mock';
+import { NETWORKS, resolveNetwork } from '../networks';
+
+const CUSTOM_RPC = 'http://localhost:8545';
+
+// Answers eth_chainId on CUSTOM_RPC and lets indexer queries through to the mock
+function rpcFetch(chainId: string) {
+  return vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input) === CUSTOM_RPC) return Response.json({ jsonrpc: '2.0', id: 1, result: chainId });
+    if (init?.method === 'HEAD') return new Response(null);
+    return createMockIndexerFetch('happy', async () => new Response('', { status: 404 }))(input, init);
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('checkNetworkHealth', () => {
+  it('checks the overridden endpoints and reports their chain ids', async () => {
+    const fetchMock = rpcFetch('0x2a');
+    vi.stubGlobal('fetch', fetchMock);
+    const network = resolveNetwork('mainnet', { mainnet: { rpcUrl: CUSTOM_RPC, indexerUrl: '' } });
+
+    const health = await checkNetworkHealth(network);
+
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual(expect.arrayContaining([CUSTOM_RPC, NETWORKS.mainnet.indexerUrl]));
+    expect(health.rpcUrl).toMatchObject({ status: 'ok', chainId: 42 });
+    expect(health.indexerUrl).toMatchObject({ status: 'ok', chainId: 42 });
+    expect(health.explorerUrl).toMatchObject({ status: 'ok', chainId: undefined });
+    expect(health.ipfsGatewayUrl).toMatchObject({ status: 'ok', chainId: undefined });
+  });
+
+  it('flags endpoints that serve another chain', async () => {
+    vi.stubGlobal('fetch', rpcFetch('0x1069'));
+    const network = resolveNetwork('mainnet', { mainnet: { rpcUrl: CUSTOM_RPC, indexerUrl: NETWORKS.testnet.indexerUrl } });
+
+    const health = await checkNetworkHealth(network);
+
+    expect(health.rpcUrl).toMatchObject({ status: 'wrong-chain', chainId: 4201 });
+    expect(health.indexerUrl).toMatchObject({ status: 'wrong-chain', chainId: 4201 });
+  });
+
+  it('reports endpoints that do not answer', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    }));
+    expect(await checkRpc(CUSTOM_RPC, 42)).toEqual({ status: 'down', error: 'fetch failed' });
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { imageRemotePatterns } from '../image-hosts';
+import { identicon, isOptimizedImageUrl, resolveImageUrl } from '../images';
+import { NETWORKS } from '../networks';
+
+const GATEWAY = 'https://gateway.example/ipfs/';
+
+describe('resolveImageUrl', () => {
+  it('serves ipfs:// through the gateway', () => {
+    expect(resolveImageUrl('ipfs://QmImage', GATEWAY)).toBe('https://gateway.example/ipfs/QmImage');
+    expect(resolveImageUrl('ipfs://ipfs/QmImage/1.png', 'https://gateway.example/ipfs')).toBe('https://gateway.example/ipfs/QmImage/1.png');
+    expect(resolveImageUrl('ipfs://QmImage', NETWORKS.mainnet.ipfsGatewayUrl)).toBe('https://api.universalprofile.cloud/ipfs/QmImage');
+  });
+
+  it('keeps web URLs and drops what an image tag cannot load', () => {
+    expect(resolveImageUrl('https://cdn.example/a.png', GATEWAY)).toBe('https://cdn.example/a.png');
+    expect(resolveImageUrl('ar://tx-id', GATEWAY)).toBe('https://arweave.net/tx-id');
+    expect(resolveImageUrl('javascript:alert(1)', GATEWAY)).toBeUndefined();
+    expect(resolveImageUrl(' ', GATEWAY)).toBeUndefined();
+    expect(resolveImageUrl(undefined, GATEWAY)).toBeUndefined();
+  });
+});
+
+describe('isOptimizedImageUrl', () => {
+  it('matches the hosts of the remote patterns', () => {
+    expect(isOptimizedImageUrl('https://api.universalprofile.cloud/ipfs/QmImage')).toBe(true);
+    expect(isOptimizedImageUrl('https://bafy.ipfs.dweb.link/1.png')).toBe(true);
+    expect(isOptimizedImageUrl('https://ipfs.dweb.link/1.png')).toBe(false);
+    expect(isOptimizedImageUrl('http://ipfs.io/ipfs/QmImage')).toBe(false);
+    expect(isOptimizedImageUrl('https://cdn.example/a.png')).toBe(false);
+    expect(isOptimizedImageUrl(identicon('seed'))).toBe(false);
+  });
+});
+
+describe('imageRemotePatterns', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('adds the gateways of the environment with their protocol and port', () => {
+    vi.stubEnv('NEXT_PUBLIC_IPFS_GATEWAY_URL', 'http://localhost:8080/ipfs/');
+    vi.stubEnv('NEXT_PUBLIC_TESTNET_IPFS_GATEWAY_URL', 'https://gateway.example/ipfs/');
+    expect(imageRemotePatterns().slice(-2)).toEqual([
+      { protocol: 'http', hostname: 'localhost', port: '8080' },
+      { protocol: 'https', hostname: 'gateway.example' },
+    ]);
+  });
+
+  it('skips gateway values that are not http(s) URLs instead of throwing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('NEXT_PUBLIC_IPFS_GATEWAY_URL', 'gateway.example/ipfs');
+    vi.stubEnv('NEXT_PUBLIC_TESTNET_IPFS_GATEWAY_URL', 'ftp://gateway.example/');
+    expect(imageRemotePatterns().every(pattern => pattern.hostname !== 'gateway.example')).toBe(true);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('identicon', () => {
+  it('is a stable SVG per seed', () => {
+    const a = identicon('0xB000000000000000000000000000000000000001-1');
+    expect(a).toMatch(/^data:image\/svg\+xml,/);
+    expect(identicon('0xb000000000000000000000000000000000000001-1')).toBe(a);
+    expect(identicon('0xb000000000000000000000000000000000000001-2')).not.toBe(a);
+  });
+});
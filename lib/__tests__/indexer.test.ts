@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { INDEXER_PAGE_SIZE } from '../constants';
+import { fetchTokensForAddress } from '../indexer';
+import { MOCK_LSP8_COLLECTIONS, MOCK_SOURCE_ADDRESS, createMockIndexerFetch } from '../mock';
+import { NETWORKS } from '../networks';
+import type { LSP7Hold } from '../types';
+
+function lsp7Hold(i: number): LSP7Hold {
+  const id = `0xa${i.toString(16).padStart(39, '0')}`;
+  return {
+    balance: '1',
+    asset: { id, lsp4TokenName: `Token ${i}`, lsp4TokenSymbol: `T${i}`, decimals: 0, icons: [] },
+  };
+}
+
+// Serves `lsp7` as LSP7 holds and no LSP8 holds; pages listed in `failPages` fail
+function pagedFetch(lsp7: LSP7Hold[], failPages: number[] = []) {
+  return vi.fn(async (_url: string, init?: RequestInit) => {
+    const { query } = JSON.parse(String(init?.body));
+    const offset = Number(query.match(/offset: (\d+)/)[1]);
+    if (query.includes('LSP8')) return Response.json({ data: { Hold: [] } });
+    if (failPages.includes(offset / INDEXER_PAGE_SIZE)) return new Response('', { status: 502 });
+    return Response.json({ data: { Hold: lsp7.slice(offset, offset + INDEXER_PAGE_SIZE) } });
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchTokensForAddress', () => {
+  it('maps LSP7 holds and groups LSP8 holds by collection', async () => {
+    vi.stubGlobal('fetch', createMockIndexerFetch('happy', fetch));
+    const { tokens, holdCount, incomplete } = await fetchTokensForAddress(MOCK_SOURCE_ADDRESS);
+
+    expect(incomplete).toBeUndefined();
+    expect(holdCount).toBe(7);
+    expect(tokens.map(t => [t.symbol, t.type])).toEqual([
+      ['MOCK', 'LSP7'], ['STALE', 'LSP7'], ['BADGE', 'LSP7'], ['CLAIM', 'LSP7'], ['MCOL', 'LSP8'],
+    ]);
+    const collection = tokens.find(t => t.type === 'LSP8')!;
+    expect(collection.tokenIds).toEqual(MOCK_LSP8_COLLECTIONS[0].tokenIds);
+    expect(collection.selectedTokenIds).toEqual(MOCK_LSP8_COLLECTIONS[0].tokenIds);
+    // Per-token LSP4 metadata, for the tokens the indexer has it for
+    const [first, second, third] = MOCK_LSP8_COLLECTIONS[0].tokenIds;
+    expect(collection.tokenMetadata?.[first]).toEqual({ name: 'Mock Collectible #1', imageUrl: 'ipfs://QmMockCollectible1', attributes: [{ key: 'Rarity', value: 'Rare' }] });
+    expect(collection.tokenMetadata?.[second]).toEqual({ name: 'Mock Collectible #2', imageUrl: 'ipfs://QmMockCollectible2Icon', attributes: undefined });
+    expect(collection.tokenMetadata?.[third]).toBeUndefined();
+  });
+
+  it('pages through large wallets and reports progress', async () => {
+    const holds = Array.from({ length: 250 }, (_, i) => lsp7Hold(i));
+    const fetchMock = pagedFetch(holds);
+    vi.stubGlobal('fetch', fetchMock);
+    const onProgress = vi.fn();
+
+    const { tokens } = await fetchTokensForAddress(MOCK_SOURCE_ADDRESS, onProgress);
+
+    expect(tokens).toHaveLength(250);
+    expect(fetchMock.mock.calls.every(([url]) => url === NETWORKS.mainnet.indexerUrl)).toBe(true);
+    expect(onProgress).toHaveBeenLastCalledWith({ lsp7: 250, lsp8: 0 });
+  });
+
+  it('queries the indexer of the selected network', async () => {
+    const fetchMock = pagedFetch([lsp7Hold(0)]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    await fetchTokensForAddress(MOCK_SOURCE_ADDRESS, undefined, NETWORKS.testnet);
+
+    expect(fetchMock.mock.calls.every(([url]) => url === NETWORKS.testnet.indexerUrl)).toBe(true);
+  });
+
+  it('returns partial results when a later page fails', async () => {
+    vi.stubGlobal('fetch', pagedFetch(Array.from({ length: 250 }, (_, i) => lsp7Hold(i)), [1]));
+    const { tokens, incomplete } = await fetchTokensForAddress(MOCK_SOURCE_ADDRESS);
+
+    expect(tokens).toHaveLength(100);
+    expect(incomplete).toContain('after 100 holdings');
+  });
+
+  it('throws when the indexer is down', async () => {
+    vi.stubGlobal('fetch', createMockIndexerFetch('indexer-error', fetch));
+    await expect(fetchTokensForAddress(MOCK_SOURCE_ADDRESS)).rejects.toThrow('Indexer request failed: 503');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { NETWORKS } from '../networks';
+import { buildReport, reportFileName, reportToCsv } from '../report';
+import { createNativeLyxAsset } from '../transfers';
+import type { TokenAsset } from '../types';
+
+const SOURCE = '0x1111111111111111111111111111111111111111';
+const UP = '0x2222222222222222222222222222222222222222';
+const SECOND_UP = '0x4444444444444444444444444444444444444444';
+const LSP7 = '0xa000000000000000000000000000000000000001';
+const LSP8 = '0xb000000000000000000000000000000000000001';
+const TOKEN_ID = `0x${'0'.repeat(63)}1`;
+
+const assets: TokenAsset[] = [
+  { address: LSP7, name: 'Token, "quoted"', symbol: 'TKN', type: 'LSP7', balance: '10', decimals: 0, selected: true, transferAmount: '7', source: SOURCE },
+  { address: LSP8, name: 'Collection', symbol: 'COL', type: 'LSP8', balance: '1', decimals: 0, selected: true, tokenIds: [TOKEN_ID], selectedTokenIds: [TOKEN_ID], transferAmount: '1', source: SOURCE },
+  { ...createNativeLyxAsset(SOURCE, BigInt('1000000000000000000')), selected: true, transferAmount: '0.5' },
+];
+
+const report = buildReport({
+  id: 'm1',
+  network: NETWORKS.mainnet,
+  sources: [SOURCE],
+  destinations: [{ address: UP, label: 'Main', force: false }, { address: SECOND_UP, label: 'Vault', force: false }],
+  assets,
+  statuses: [
+    { from: SOURCE, address: LSP7, to: UP, amount: '7', status: 'confirmed', txHash: '0xaaa' },
+    { from: SOURCE, address: LSP7, to: SECOND_UP, amount: '3', status: 'confirmed', txHash: '0xccc' },
+    { from: SOURCE, address: LSP8, tokenId: TOKEN_ID, to: SECOND_UP, status: 'error', error: 'User rejected the request.' },
+    { from: SOURCE, address: 'native', to: UP, amount: '0.5', status: 'reverted', txHash: '0xbbb', error: 'Transaction reverted' },
+  ],
+});
+
+describe('buildReport', () => {
+  it('lists one entry per transfer with amounts, token ids and explorer links', () => {
+    expect(report.entries).toEqual([
+      expect.objectContaining({ destination: UP, asset: LSP7, standard: 'LSP7', symbol: 'TKN', amount: '7', status: 'confirmed', explorerUrl: expect.stringMatching(/\/tx\/0xaaa$/) }),
+      expect.objectContaining({ destination: SECOND_UP, asset: LSP7, amount: '3', status: 'confirmed' }),
+      expect.objectContaining({ destination: SECOND_UP, asset: LSP8, standard: 'LSP8', tokenId: TOKEN_ID, amount: undefined, status: 'error', error: 'User rejected the request.' }),
+      expect.objectContaining({ asset: 'native', standard: 'LYX', amount: '0.5', status: 'reverted' }),
+    ]);
+  });
+
+  it('links to the explorer of the migration network', () => {
+    const testnet = buildReport({ ...report, network: NETWORKS.testnet, assets, statuses: [{ from: SOURCE, address: LSP7, to: UP, status: 'confirmed', txHash: '0xaaa' }] });
+    expect(testnet.entries[0].explorerUrl).toBe('https://explorer.execution.testnet.lukso.network/tx/0xaaa');
+  });
+});
+
+describe('reportToCsv', () => {
+  it('writes a header and escapes cells', () => {
+    const lines = reportToCsv(report).trim().split('\n');
+    expect(lines[0]).toBe('source,destination,asset,standard,name,symbol,amount,tokenId,txHash,explorerUrl,status,error');
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toContain(`${SOURCE},${UP},${LSP7},LSP7,"Token, ""quoted""",TKN,7,,0xaaa,`);
+    expect(lines[2]).toContain(`${SOURCE},${SECOND_UP},${LSP7},`);
+    expect(lines[3]).toMatch(/,error,User rejected the request\.$/);
+  });
+});
+
+describe('reportFileName', () => {
+  it('names the file after the source and date', () => {
+    expect(reportFileName({ ...report, createdAt: Date.UTC(2025, 0, 31) }, 'csv')).toBe('lsp-migration-0x111111-2025-01-31.csv');
+  });
+
+  it('falls back to a fixed name for a report without sources', () => {
+    expect(reportFileName({ ...report, sources: [], createdAt: Date.UTC(2025, 0, 31) }, 'json')).toBe('lsp-migration-report-2025-01-31.json');
+  });
+});
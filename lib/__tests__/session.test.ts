@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INTERRUPTED_ERROR,
+  excludeSentTransfers,
+  isSessionComplete,
+  keepSentTransfers,
+  mergeTransferStatuses,
+  prepareResume,
+  summarizeSession,
+  type SavedSession,
+} from '../session';
+import type { Destination, TokenAsset, TransferStatus } from '../types';
+
+const LSP7_A = '0xa000000000000000000000000000000000000001';
+const LSP7_B = '0xa000000000000000000000000000000000000002';
+const LSP8 = '0xb000000000000000000000000000000000000001';
+const ID_1 = `0x${'0'.repeat(63)}1`;
+const ID_2 = `0x${'0'.repeat(63)}2`;
+const ID_3 = `0x${'0'.repeat(63)}3`;
+const SOURCE = '0x1111111111111111111111111111111111111111';
+const UP = '0x2222222222222222222222222222222222222222';
+const SECOND_UP = '0x4444444444444444444444444444444444444444';
+
+const destinations: Destination[] = [UP, SECOND_UP].map((address, i) => ({
+  id: `d${i}`,
+  address,
+  label: `Destination ${i + 1}`,
+  connected: i === 0,
+  check: { status: 'verified' },
+  registerWithLSP1: true,
+}));
+
+function asset(address: string, type: TokenAsset['type'], extra: Partial<TokenAsset> = {}): TokenAsset {
+  return { address, name: address, symbol: 'T', type, balance: '10', decimals: 0, selected: true, transferAmount: '10', source: SOURCE, ...extra };
+}
+
+const session: SavedSession = {
+  version: 3,
+  savedAt: 0,
+  migrationId: 'test',
+  network: 'mainnet',
+  sources: [{ address: SOURCE, walletName: 'Mock Wallet' }],
+  destinations,
+  assets: [
+    asset(LSP7_A, 'LSP7'),
+    asset(LSP7_B, 'LSP7'),
+    asset(LSP8, 'LSP8', { tokenIds: [ID_1, ID_2, ID_3], selectedTokenIds: [ID_1, ID_2, ID_3] }),
+  ],
+  transferStatuses: [
+    { from: SOURCE, address: LSP7_A, to: UP, status: 'confirmed', txHash: '0x01' },
+    { from: SOURCE, address: LSP7_B, to: UP, status: 'transferring' },
+    { from: SOURCE, address: LSP8, tokenId: ID_1, to: UP, status: 'submitted', txHash: '0x02' },
+    { from: SOURCE, address: LSP8, tokenId: ID_2, to: UP, status: 'transferring', txHash: '0x03' },
+    { from: SOURCE, address: LSP8, tokenId: ID_3, to: UP, status: 'pending' },
+  ],
+};
+
+describe('prepareResume', () => {
+  it('keeps hashes to confirm and flags transfers without a hash as interrupted', () => {
+    const { transferStatuses } = prepareResume(session);
+    expect(transferStatuses.map(s => s.status)).toEqual(['confirmed', 'error', 'submitted', 'submitted', 'pending']);
+    expect(transferStatuses[1].error).toBe(INTERRUPTED_ERROR);
+  });
+
+  it('only leaves unsent transfers selected', () => {
+    const { assets } = prepareResume(session);
+    expect(assets.map(a => a.selected)).toEqual([false, false, true]);
+    expect(assets[2].selectedTokenIds).toEqual([ID_3]);
+  });
+
+  it('polls again the hashes whose receipt wait timed out and never re-sends them', () => {
+    const timedOut: SavedSession = {
+      ...session,
+      assets: [asset(LSP7_A, 'LSP7')],
+      transferStatuses: [{ from: SOURCE, address: LSP7_A, to: UP, status: 'error', error: 'Timed out waiting for confirmation', txHash: '0x04' }],
+    };
+    expect(excludeSentTransfers(timedOut.assets, timedOut.transferStatuses, destinations)[0].selected).toBe(false);
+    const { assets, transferStatuses } = prepareResume(timedOut);
+    expect(transferStatuses).toEqual([{ from: SOURCE, address: LSP7_A, to: UP, status: 'submitted', error: undefined, txHash: '0x04' }]);
+    expect(assets[0].selected).toBe(false);
+  });
+
+  it('summarizes the saved progress', () => {
+    expect(summarizeSession(session)).toEqual({ confirmed: 1, awaiting: 2, interrupted: 1, remaining: 1 });
+  });
+});
+
+describe('excludeSentTransfers', () => {
+  it('leaves failed and reverted transfers selected for a retry', () => {
+    const assets = excludeSentTransfers([asset(LSP7_A, 'LSP7'), asset(LSP7_B, 'LSP7')], [
+      { from: SOURCE, address: LSP7_A, to: UP, status: 'reverted', error: 'Transaction reverted' },
+      { from: SOURCE, address: LSP7_B, to: UP, status: 'error', error: 'User rejected the request.' },
+    ], destinations);
+    expect(assets.every(a => a.selected)).toBe(true);
+  });
+
+  it('only drops the sent portions of a split amount', () => {
+    const split = asset(LSP7_A, 'LSP7', { transferAmount: '6', amountSplits: [{ destinationId: 'd1', amount: '4' }] });
+    const [mainSent] = excludeSentTransfers([split], [{ from: SOURCE, address: LSP7_A, to: UP, status: 'confirmed' }], destinations);
+    expect(mainSent).toMatchObject({ selected: true, destinationId: 'd1', transferAmount: '4', amountSplits: [] });
+
+    const [splitSent] = excludeSentTransfers([split], [{ from: SOURCE, address: LSP7_A, to: SECOND_UP, status: 'submitted' }], destinations);
+    expect(splitSent).toMatchObject({ selected: true, transferAmount: '6', amountSplits: [] });
+  });
+});
+
+describe('mergeTransferStatuses', () => {
+  it('replaces restarted transfers and keeps earlier confirmations', () => {
+    const merged = mergeTransferStatuses(
+      [{ from: SOURCE, address: LSP7_A, to: UP, status: 'confirmed' }, { from: SOURCE, address: LSP7_A, to: SECOND_UP, status: 'error' }],
+      [{ from: SOURCE, address: LSP7_A, to: SECOND_UP, status: 'pending' }],
+    );
+    expect(merged).toEqual([
+      { from: SOURCE, address: LSP7_A, to: UP, status: 'confirmed' },
+      { from: SOURCE, address: LSP7_A, to: SECOND_UP, status: 'pending' },
+    ]);
+  });
+});
+
+describe('keepSentTransfers', () => {
+  it('drops the statuses of transfers that can be sent again', () => {
+    const confirmed: TransferStatus = { from: SOURCE, address: LSP7_A, to: UP, status: 'confirmed', txHash: '0xabc' };
+    const timedOut: TransferStatus = { from: SOURCE, address: LSP7_B, to: UP, status: 'error', txHash: '0xdef', error: 'Timed out' };
+    expect(keepSentTransfers([
+      confirmed,
+      timedOut,
+      { from: SOURCE, address: LSP7_A, to: SECOND_UP, status: 'error', error: 'User rejected the request' },
+      { from: SOURCE, address: LSP7_B, to: SECOND_UP, status: 'reverted', txHash: '0x123' },
+      { from: SOURCE, address: LSP7_A, tokenId: '0x01', to: UP, status: 'pending' },
+    ])).toEqual([confirmed, timedOut]);
+  });
+});
+
+describe('isSessionComplete', () => {
+  it('is complete once no started transfer is waiting for a signature or receipt', () => {
+    expect(isSessionComplete([])).toBe(false);
+    expect(isSessionComplete([{ address: LSP7_A, status: 'confirmed' }])).toBe(true);
+    expect(isSessionComplete([{ address: LSP7_A, status: 'confirmed' }, { address: LSP7_B, status: 'reverted' }])).toBe(true);
+    expect(isSessionComplete([{ address: LSP7_A, status: 'error', error: 'User rejected the request' }])).toBe(true);
+    expect(isSessionComplete([{ address: LSP7_A, status: 'confirmed' }, { address: LSP7_B, status: 'submitted', txHash: '0xabc' }])).toBe(false);
+    expect(isSessionComplete([{ address: LSP7_A, status: 'transferring' }])).toBe(false);
+    expect(isSessionComplete([{ address: LSP7_A, status: 'pending' }])).toBe(false);
+  });
+});
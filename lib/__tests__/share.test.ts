@@ -0,0 +1,129 @@
+import { pad, parseUnits, toHex } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { NATIVE_LYX_ADDRESS } from '../constants';
+import { applySharedPlan, createSharedPlan, parseShareParams, toShareParams, type SharedPlan } from '../share';
+import type { Destination, TokenAsset } from '../types';
+
+const SOURCE = '0x1111111111111111111111111111111111111111';
+const SECOND_SOURCE = '0x5555555555555555555555555555555555555555';
+const UP = '0x2222222222222222222222222222222222222222';
+const SECOND_UP = '0x3333333333333333333333333333333333333333';
+const TOKEN = '0xa000000000000000000000000000000000000001';
+const COLLECTION = '0xb000000000000000000000000000000000000001';
+const tokenId = (n: number) => pad(toHex(n), { size: 32 });
+
+function destination(id: string, address: string): Destination {
+  return { id, address, label: id, connected: false, check: { status: 'verified' }, registerWithLSP1: true };
+}
+
+const main = destination('main', UP);
+const vault = destination('vault', SECOND_UP);
+
+function asset(overrides: Partial<TokenAsset>): TokenAsset {
+  return {
+    source: SOURCE,
+    address: TOKEN,
+    name: 'Mock Token',
+    symbol: 'MOCK',
+    type: 'LSP7',
+    balance: parseUnits('1000', 18).toString(),
+    decimals: 18,
+    selected: true,
+    transferAmount: '1000',
+    ...overrides,
+  };
+}
+
+const token = asset({ transferAmount: '12.5' });
+const collection = asset({
+  address: COLLECTION, type: 'LSP8', decimals: 0, balance: '3', transferAmount: '1',
+  tokenIds: [1, 2, 3].map(tokenId), selectedTokenIds: [tokenId(1), tokenId(3)],
+});
+const lyx = asset({ source: SECOND_SOURCE, address: NATIVE_LYX_ADDRESS, type: 'LYX', transferAmount: '3' });
+
+describe('share links', () => {
+  it('round-trips the selection through the query string', () => {
+    const plan = createSharedPlan('mainnet', [SOURCE, SECOND_SOURCE], [main], [token, collection, lyx, asset({ address: '0xa000000000000000000000000000000000000002', selected: false })]);
+    const params = toShareParams(plan, new URLSearchParams('scenario=reject'));
+
+    expect(params.get('scenario')).toBe('reject');
+    expect(params.has('network')).toBe(false);
+    expect(params.get('assets')).toBe(`${TOKEN}:12.5,${COLLECTION}:0x1.0x3,lyx@1:3`);
+    expect(parseShareParams(params)).toEqual({ plan: { ...plan, network: undefined } });
+  });
+
+  it('carries split amounts and per-token destinations', () => {
+    const routed = [
+      { ...token, amountSplits: [{ destinationId: 'vault', amount: '2.5' }] },
+      { ...lyx, source: SOURCE, destinationId: 'vault' },
+      { ...collection, tokenDestinations: { [tokenId(3)]: 'vault' } },
+    ];
+    const plan = createSharedPlan('mainnet', [SOURCE], [main, vault], routed);
+    const params = toShareParams(plan);
+
+    expect(params.get('to')).toBe(`${UP},${SECOND_UP}`);
+    expect(params.get('assets')).toBe(`${TOKEN}:12.5_2.5~1,lyx:3~1,${COLLECTION}:0x1.0x3~1`);
+    expect(parseShareParams(params)).toEqual({ plan: { ...plan, network: undefined } });
+
+    // The owner's session has its own destination IDs, in another order
+    const owner = [destination('b', SECOND_UP), destination('a', UP)];
+    const [lsp7, native, lsp8] = applySharedPlan([token, { ...lyx, source: SOURCE }, collection], plan, owner);
+    expect(lsp7).toMatchObject({ destinationId: 'a', amountSplits: [{ destinationId: 'b', amount: '2.5' }] });
+    expect(native).toMatchObject({ destinationId: 'b', amountSplits: undefined });
+    expect(lsp8).toMatchObject({ destinationId: 'a', tokenDestinations: { [tokenId(3)]: 'b' } });
+  });
+
+  it('rejects malformed links and ignores pages without one', () => {
+    expect(parseShareParams(new URLSearchParams('scenario=happy'))).toBeNull();
+    expect(parseShareParams(new URLSearchParams('from=0x123'))).toEqual({ error: '0x123 is not an address.' });
+    expect(parseShareParams(new URLSearchParams(`from=${SOURCE}&network=goerli`))).toEqual({ error: 'Unknown network "goerli".' });
+    expect(parseShareParams(new URLSearchParams(`from=${SOURCE}&assets=lyx@1:3`))).toEqual({ error: 'lyx@1:3: unknown source.' });
+    expect(parseShareParams(new URLSearchParams(`from=${SOURCE}&assets=${COLLECTION}:0xzz`))).toEqual({ error: `${COLLECTION}:0xzz: invalid amount or token IDs.` });
+    expect(parseShareParams(new URLSearchParams(`from=${SOURCE}&to=${UP}&assets=${TOKEN}:10_2~1`))).toEqual({ error: `${TOKEN}:10_2~1: unknown destination.` });
+  });
+
+  it('reads the network and leaves the selection alone without assets', () => {
+    const result = parseShareParams(new URLSearchParams(`network=testnet&from=${SOURCE}`));
+    expect(result).toEqual({ plan: { network: 'testnet', sources: [SOURCE], destinations: [] } });
+    const plan = (result as { plan: SharedPlan }).plan;
+    expect(applySharedPlan([token], plan, [main])).toEqual([token]);
+  });
+});
+
+describe('applySharedPlan', () => {
+  it('selects what the plan lists and nothing else', () => {
+    const scanned = [
+      asset({}),
+      asset({ address: '0xa000000000000000000000000000000000000002' }),
+      { ...collection, selectedTokenIds: collection.tokenIds },
+      asset({ source: SECOND_SOURCE }), // not a source of the plan
+    ];
+    const plan: SharedPlan = {
+      sources: [SOURCE],
+      destinations: [UP],
+      assets: [
+        { source: SOURCE, address: TOKEN, amount: '12.5' },
+        { source: SOURCE, address: COLLECTION, tokenIds: [tokenId(2), tokenId(9)] },
+      ],
+    };
+
+    const [lsp7, other, lsp8, untouched] = applySharedPlan(scanned, plan, [main]);
+
+    expect(lsp7).toMatchObject({ selected: true, transferAmount: '12.5' });
+    expect(other.selected).toBe(false);
+    // Token 9 is no longer owned
+    expect(lsp8).toMatchObject({ selected: true, selectedTokenIds: [tokenId(2)] });
+    expect(untouched).toBe(scanned[3]);
+  });
+
+  it('sends an LSP7 in full and a collection with all its tokens without a value', () => {
+    const plan: SharedPlan = {
+      sources: [SOURCE],
+      destinations: [],
+      assets: [{ source: SOURCE, address: TOKEN }, { source: SOURCE, address: COLLECTION }],
+    };
+    const [lsp7, lsp8] = applySharedPlan([asset({ transferAmount: '1' }), { ...collection, selectedTokenIds: [] }], plan, [main]);
+    expect(lsp7.transferAmount).toBe('1000');
+    expect(lsp8.selectedTokenIds).toEqual(collection.tokenIds);
+  });
+});
@@ -0,0 +1,90 @@
+import { parseUnits } from 'viem';
+import { describe, expect, it, vi } from 'vitest';
+import { BUNDLED_BLOCKLIST, EMPTY_TOKEN_LISTS, applySpamFilter, detectSpam, markToken, parseAddressList } from '../spam';
+import type { TokenAsset } from '../types';
+
+// A known spam contract shipped for mainnet only
+vi.mock('../spam-blocklist.json', () => ({
+  default: { mainnet: ['0xC000000000000000000000000000000000000001'], testnet: [] },
+}));
+const KNOWN_SPAM = '0xc000000000000000000000000000000000000001';
+
+const TOKEN = '0xa000000000000000000000000000000000000001';
+const COLLECTION = '0xb000000000000000000000000000000000000001';
+const TOKEN_ID = `0x${'0'.repeat(63)}1`;
+
+function lsp7(overrides: Partial<TokenAsset> = {}): TokenAsset {
+  return {
+    source: '0x1111111111111111111111111111111111111111',
+    address: TOKEN,
+    name: 'Mock Token',
+    symbol: 'MOCK',
+    type: 'LSP7',
+    balance: parseUnits('10', 18).toString(),
+    decimals: 18,
+    selected: true,
+    iconUrl: 'ipfs://QmIcon',
+    transferAmount: '10',
+    ...overrides,
+  };
+}
+
+describe('detectSpam', () => {
+  it('passes tokens with metadata and a real balance', () => {
+    expect(detectSpam(lsp7(), EMPTY_TOKEN_LISTS, 'mainnet')).toEqual([]);
+  });
+
+  it('blocks the contracts of the list bundled for the network, unless allowed', () => {
+    expect(BUNDLED_BLOCKLIST.mainnet).toEqual([KNOWN_SPAM]);
+    const spam = lsp7({ address: KNOWN_SPAM });
+    expect(detectSpam(spam, EMPTY_TOKEN_LISTS, 'mainnet')).toEqual(['On the bundled blocklist']);
+    expect(detectSpam(spam, { blocked: [KNOWN_SPAM], allowed: [] }, 'mainnet')).toEqual(['On the bundled blocklist', 'On your blocklist']);
+    expect(detectSpam(spam, EMPTY_TOKEN_LISTS, 'testnet')).toEqual([]);
+    expect(detectSpam(spam, { blocked: [], allowed: [KNOWN_SPAM] }, 'mainnet')).toEqual([]);
+  });
+
+  it('flags missing metadata, lures, odd icon URLs and dust', () => {
+    expect(detectSpam(lsp7({ name: 'Unknown Token', symbol: '???' }), EMPTY_TOKEN_LISTS, 'mainnet')).toEqual(['No LSP4 name or symbol']);
+    expect(detectSpam(lsp7({ name: 'Visit https://free.example' }), EMPTY_TOKEN_LISTS, 'mainnet')).toEqual(['Name looks like a link or an airdrop lure']);
+    expect(detectSpam(lsp7({ symbol: 'AIRDROP' }), EMPTY_TOKEN_LISTS, 'mainnet')).toEqual(['Name looks like a link or an airdrop lure']);
+    expect(detectSpam(lsp7({ iconUrl: 'http://cdn.example/x.png' }), EMPTY_TOKEN_LISTS, 'mainnet')).toEqual(['Icon served from an unusual URL']);
+    expect(detectSpam(lsp7({ balance: '1000' }), EMPTY_TOKEN_LISTS, 'mainnet')).toEqual(['Dust balance (under 0.0001)']);
+    expect(detectSpam(lsp7({ balance: '1', decimals: 0 }), EMPTY_TOKEN_LISTS, 'mainnet')).toEqual(['Dust balance (1 indivisible token or less)']);
+    expect(detectSpam(lsp7({ balance: '2', decimals: 0 }), EMPTY_TOKEN_LISTS, 'mainnet')).toEqual([]);
+  });
+
+  it('lets the allowlist win and never flags LYX or tokens added by address', () => {
+    const junk = lsp7({ name: 'Unknown Token' });
+    expect(detectSpam(lsp7(), { blocked: [TOKEN], allowed: [] }, 'mainnet')).toEqual(['On your blocklist']);
+    expect(detectSpam(junk, { blocked: [TOKEN], allowed: [TOKEN] }, 'mainnet')).toEqual([]);
+    expect(detectSpam({ ...junk, manual: true }, EMPTY_TOKEN_LISTS, 'mainnet')).toEqual([]);
+  });
+});
+
+describe('applySpamFilter', () => {
+  it('deselects suspected spam, including every token id of a collection', () => {
+    const collection = lsp7({
+      address: COLLECTION, type: 'LSP8', name: 'Unknown NFT', decimals: 0, balance: '1', tokenIds: [TOKEN_ID], selectedTokenIds: [TOKEN_ID],
+    });
+    const [token, nft] = applySpamFilter([lsp7(), collection], EMPTY_TOKEN_LISTS, 'mainnet');
+    expect(token).toEqual(lsp7());
+    expect(nft).toMatchObject({ selected: false, selectedTokenIds: [], spam: ['No LSP4 name or symbol'] });
+
+    const [allowed] = applySpamFilter([nft], { blocked: [], allowed: [COLLECTION] }, 'mainnet');
+    expect(allowed.spam).toBeUndefined();
+    expect(allowed.selected).toBe(false);
+  });
+});
+
+describe('token lists', () => {
+  it('moves a contract between the lists', () => {
+    const blocked = markToken(EMPTY_TOKEN_LISTS, TOKEN.toUpperCase().replace('0X', '0x'), 'blocked');
+    expect(blocked).toEqual({ blocked: [TOKEN], allowed: [] });
+    expect(markToken(blocked, TOKEN, 'allowed')).toEqual({ blocked: [], allowed: [TOKEN] });
+  });
+
+  it('parses one address per line', () => {
+    expect(parseAddressList(`${TOKEN}\n\n${COLLECTION}, ${TOKEN}`)).toEqual({ addresses: [TOKEN, COLLECTION] });
+    expect(parseAddressList('0x1234')).toEqual({ error: '0x1234 is not an address.' });
+  });
+});
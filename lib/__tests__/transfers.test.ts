@@ -0,0 +1,292 @@
+import { decodeFunctionData, parseUnits, type Hex } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { LSP7_TRANSFER_ABI, LSP8_TRANSFER_ABI } from '../constants';
+import {
+  batchLegs,
+  createNativeLyxAsset,
+  decodeRevertReason,
+  deselectReverting,
+  encodeLSP7Transfer,
+  encodeLSP8Transfer,
+  encodeTransferBatch,
+  estimateGasReserve,
+  estimateSourceCosts,
+  initialTransferStatuses,
+  parseTransferAmount,
+  parseTransferData,
+  planLegs,
+  planTransfers,
+  trimToBalance,
+} from '../transfers';
+import type { Destination, TokenAsset } from '../types';
+
+const FROM = '0x1111111111111111111111111111111111111111';
+const TO = '0x2222222222222222222222222222222222222222';
+const SECOND = '0x4444444444444444444444444444444444444444';
+const TOKEN_ID: Hex = `0x${'0'.repeat(63)}1`;
+const TOKEN_ID_2: Hex = `0x${'0'.repeat(63)}2`;
+
+function lsp7(overrides: Partial<TokenAsset> = {}): TokenAsset {
+  return {
+    address: '0xa000000000000000000000000000000000000001',
+    name: 'Mock Token',
+    symbol: 'MOCK',
+    type: 'LSP7',
+    balance: parseUnits('10', 18).toString(),
+    decimals: 18,
+    selected: true,
+    transferAmount: '10',
+    source: FROM,
+    ...overrides,
+  };
+}
+
+function lsp8(overrides: Partial<TokenAsset> = {}): TokenAsset {
+  return {
+    address: '0xb000000000000000000000000000000000000001',
+    name: 'Mock Collectibles',
+    symbol: 'MCOL',
+    type: 'LSP8',
+    balance: '2',
+    decimals: 0,
+    selected: true,
+    tokenIds: [TOKEN_ID, TOKEN_ID_2],
+    selectedTokenIds: [TOKEN_ID],
+    transferAmount: '2',
+    source: FROM,
+    ...overrides,
+  };
+}
+
+function destination(id: string, address: string, overrides: Partial<Destination> = {}): Destination {
+  return {
+    id,
+    address,
+    label: id,
+    connected: false,
+    check: { status: 'verified' },
+    registerWithLSP1: true,
+    ...overrides,
+  };
+}
+
+const DESTINATIONS = [destination('main', TO), destination('second', SECOND, { check: { status: 'eoa' } })];
+
+describe('calldata', () => {
+  it('encodes LSP7 transfer(from, to, amount, force, data)', () => {
+    const data = encodeLSP7Transfer(FROM, TO, BigInt(5), false);
+    const { functionName, args } = decodeFunctionData({ abi: LSP7_TRANSFER_ABI, data });
+    expect(functionName).toBe('transfer');
+    expect(args).toEqual([FROM, TO, BigInt(5), false, '0x']);
+  });
+
+  it('encodes LSP8 transfer(from, to, tokenId, force, data)', () => {
+    const data = encodeLSP8Transfer(FROM, TO, TOKEN_ID, true);
+    const { args } = decodeFunctionData({ abi: LSP8_TRANSFER_ABI, data });
+    expect(args).toEqual([FROM, TO, TOKEN_ID, true, '0x']);
+  });
+
+  it('encodes one transferBatch entry per leg', () => {
+    const legs = planLegs([lsp8({ selectedTokenIds: [TOKEN_ID, TOKEN_ID_2], tokenDestinations: { [TOKEN_ID_2]: 'second' } })], DESTINATIONS);
+    const { functionName, args } = decodeFunctionData({ abi: LSP8_TRANSFER_ABI, data: encodeTransferBatch(legs) });
+    expect(functionName).toBe('transferBatch');
+    expect(args).toEqual([[FROM, FROM], [TO, SECOND], [TOKEN_ID, TOKEN_ID_2], [false, true], ['0x', '0x']]);
+
+    const tagged = planLegs([lsp8({ selectedTokenIds: [TOKEN_ID, TOKEN_ID_2], transferData: '0xbeef' })], DESTINATIONS);
+    expect(decodeFunctionData({ abi: LSP8_TRANSFER_ABI, data: encodeTransferBatch(tagged) }).args?.[4]).toEqual(['0xbeef', '0xbeef']);
+
+    const split = planLegs([lsp7({ transferAmount: '6', amountSplits: [{ destinationId: 'second', amount: '4' }] })], DESTINATIONS);
+    const lsp7Batch = decodeFunctionData({ abi: LSP7_TRANSFER_ABI, data: encodeTransferBatch(split) });
+    expect(lsp7Batch.args?.[2]).toEqual([parseUnits('6', 18), parseUnits('4', 18)]);
+  });
+});
+
+describe('batchLegs', () => {
+  const ids = [1, 2, 3, 4, 5].map(i => `0x${'0'.repeat(63)}${i}`);
+  const collection = lsp8({ tokenIds: ids, selectedTokenIds: ids });
+
+  it('batches the legs of a contract and keeps LYX and other contracts apart', () => {
+    const lyx = { ...createNativeLyxAsset(FROM, BigInt(1)), selected: true, transferAmount: '0.5' };
+    const batches = batchLegs(planLegs([lsp7(), collection, lyx], DESTINATIONS), () => BigInt(100_000));
+    expect(batches.map(b => [b[0].asset.type, b.length])).toEqual([['LSP7', 1], ['LSP8', 5], ['LYX', 1]]);
+  });
+
+  it('splits a batch once the gas budget is reached', () => {
+    const batches = batchLegs(planLegs([collection], DESTINATIONS), () => BigInt(100_000), BigInt(250_000));
+    expect(batches.map(b => b.length)).toEqual([2, 2, 1]);
+  });
+
+  it('never batches the same contract across sources or legs with errors', () => {
+    const other = lsp8({ source: SECOND, tokenIds: ids, selectedTokenIds: ids.slice(0, 2) });
+    const invalid = lsp7({ transferAmount: '6', amountSplits: [{ destinationId: 'main', amount: '4' }] });
+    const batches = batchLegs(planLegs([collection, other, invalid], DESTINATIONS), () => BigInt(100_000));
+    expect(batches.map(b => b.length)).toEqual([5, 2, 1, 1]);
+  });
+});
+
+describe('parseTransferAmount', () => {
+  it('validates the entered amount against the balance', () => {
+    expect(parseTransferAmount(lsp7({ transferAmount: '2.5' }))).toEqual({ amount: parseUnits('2.5', 18) });
+    expect(parseTransferAmount(lsp7({ transferAmount: 'abc' }))).toEqual({ error: 'Invalid amount' });
+    expect(parseTransferAmount(lsp7({ transferAmount: '0' }))).toEqual({ error: 'Amount must be greater than 0' });
+    expect(parseTransferAmount(lsp7({ transferAmount: '11' }))).toEqual({ error: 'Amount exceeds balance' });
+  });
+});
+
+describe('parseTransferData', () => {
+  it('takes 0x input as hex and anything else as a UTF-8 memo', () => {
+    expect(parseTransferData('')).toEqual({ data: '0x' });
+    expect(parseTransferData(' 0xABcd ')).toEqual({ data: '0xabcd' });
+    expect(parseTransferData('migration #1')).toEqual({ data: '0x6d6967726174696f6e202331' });
+  });
+
+  it('rejects malformed hex', () => {
+    expect(parseTransferData('0xzz')).toEqual({ error: 'Data is not valid hex' });
+    expect(parseTransferData('0xabc')).toEqual({ error: 'Hex data needs an even number of digits' });
+  });
+});
+
+describe('planTransfers', () => {
+  it('plans one call per LSP7 asset and per selected LSP8 token id', () => {
+    const planned = planTransfers(
+      [lsp7(), lsp7({ address: '0xa000000000000000000000000000000000000002', selected: false }), lsp8(), createNativeLyxAsset(FROM, BigInt(1))],
+      DESTINATIONS,
+    );
+    expect(planned.map(p => [p.address, p.tokenId, p.to])).toEqual([
+      ['0xa000000000000000000000000000000000000001', undefined, TO],
+      ['0xb000000000000000000000000000000000000001', TOKEN_ID, TO],
+    ]);
+  });
+
+  it('skips LSP7 assets with an invalid amount', () => {
+    expect(planTransfers([lsp7({ transferAmount: '' })], DESTINATIONS)).toEqual([]);
+  });
+
+  it('uses force = true for destinations that are not verified profiles', () => {
+    const [planned] = planTransfers([lsp7({ destinationId: 'second' })], DESTINATIONS);
+    const { args } = decodeFunctionData({ abi: LSP7_TRANSFER_ABI, data: planned.data });
+    expect(args).toEqual([FROM, SECOND, parseUnits('10', 18), true, '0x']);
+  });
+});
+
+describe('planLegs', () => {
+  it('moves native LYX to the end', () => {
+    const lyx = { ...createNativeLyxAsset(FROM, BigInt(1)), selected: true, transferAmount: '0.5' };
+    expect(planLegs([lyx, lsp7(), lsp8()], DESTINATIONS).map(l => l.asset.type)).toEqual(['LSP7', 'LSP8', 'LYX']);
+  });
+
+  it('routes LSP8 token ids and LSP7 splits to their own destination', () => {
+    const legs = planLegs([
+      lsp7({ transferAmount: '6', amountSplits: [{ destinationId: 'second', amount: '4' }] }),
+      lsp8({ selectedTokenIds: [TOKEN_ID, TOKEN_ID_2], tokenDestinations: { [TOKEN_ID_2]: 'second' } }),
+    ], DESTINATIONS);
+    expect(legs.map(l => [l.asset.type, l.amount ?? l.tokenId, l.to, l.force])).toEqual([
+      ['LSP7', '6', TO, false],
+      ['LSP7', '4', SECOND, true],
+      ['LSP8', TOKEN_ID, TO, false],
+      ['LSP8', TOKEN_ID_2, SECOND, true],
+    ]);
+  });
+
+  it('passes the asset data, or else the migration data, to token transfers only', () => {
+    const lyx = { ...createNativeLyxAsset(FROM, BigInt(1)), selected: true, transferAmount: '0.5' };
+    const legs = planLegs([lsp7(), lsp8({ transferData: '0x1234' }), lyx], DESTINATIONS, 'hi');
+    expect(legs.map(l => l.data)).toEqual(['0x6869', '0x1234', '0x']);
+
+    const [planned] = planTransfers([lsp7()], DESTINATIONS, 'hi');
+    const { args } = decodeFunctionData({ abi: LSP7_TRANSFER_ABI, data: planned.data });
+    expect(args?.[4]).toBe('0x6869');
+  });
+
+  it('flags token transfers with invalid data', () => {
+    const legs = planLegs([lsp7(), lsp8({ transferData: '0xabc' })], DESTINATIONS, '0xzz');
+    expect(legs.map(l => l.error)).toEqual(['Data is not valid hex', 'Hex data needs an even number of digits']);
+    expect(planTransfers([lsp7()], DESTINATIONS, '0xzz')).toEqual([]);
+  });
+
+  it('falls back to the first destination when the assigned one is gone', () => {
+    expect(planLegs([lsp7({ destinationId: 'removed' })], DESTINATIONS)[0].to).toBe(TO);
+  });
+
+  it('flags two portions sent to the same destination', () => {
+    const legs = planLegs([lsp7({ transferAmount: '6', amountSplits: [{ destinationId: 'main', amount: '4' }] })], DESTINATIONS);
+    expect(legs.every(l => l.error === 'Each split needs a different destination')).toBe(true);
+  });
+
+  it('flags splits that add up to more than the balance', () => {
+    const legs = planLegs([lsp7({ transferAmount: '6', amountSplits: [{ destinationId: 'second', amount: '5' }] })], DESTINATIONS);
+    expect(legs.map(l => l.error)).toEqual(['Split amounts exceed balance', 'Split amounts exceed balance']);
+  });
+});
+
+describe('initialTransferStatuses', () => {
+  it('starts one pending status per leg', () => {
+    expect(initialTransferStatuses(planLegs([lsp7(), lsp8()], DESTINATIONS))).toEqual([
+      { from: FROM, address: '0xa000000000000000000000000000000000000001', to: TO, amount: '10', status: 'pending' },
+      { from: FROM, address: '0xb000000000000000000000000000000000000001', tokenId: TOKEN_ID, to: TO, status: 'pending' },
+    ]);
+  });
+});
+
+describe('estimateGasReserve', () => {
+  it('adds the safety margin to the estimated cost', () => {
+    const reserve = estimateGasReserve([BigInt(100_000), BigInt(100_000)], BigInt(21_000), BigInt(1_000_000_000));
+    expect(reserve).toBe(BigInt(221_000) * BigInt(1_000_000_000) * BigInt(150) / BigInt(100));
+  });
+});
+
+describe('estimateSourceCosts', () => {
+  const gasPrice = BigInt(1_000_000_000);
+  const gasFor = () => BigInt(100_000);
+  const lyx = { ...createNativeLyxAsset(FROM, parseUnits('2', 18)), selected: true, transferAmount: '1' };
+
+  it('adds the LYX being sent and the margin, and reports what is missing', () => {
+    const legs = planLegs([lsp7(), lsp8(), lyx], DESTINATIONS);
+    const [cost] = estimateSourceCosts(legs, gasFor, gasPrice, { [FROM]: parseUnits('1', 18) });
+    const fee = BigInt(300_000) * gasPrice;
+    expect(cost).toMatchObject({ source: FROM, gas: BigInt(300_000), fee, balance: parseUnits('1', 18) });
+    expect(cost.required).toBe(fee * BigInt(150) / BigInt(100) + parseUnits('1', 18));
+    expect(cost.missing).toBe(cost.required - parseUnits('1', 18));
+  });
+
+  it('reports nothing missing when the balance is unknown', () => {
+    const [cost] = estimateSourceCosts(planLegs([lsp7()], DESTINATIONS), gasFor, gasPrice, {});
+    expect(cost.missing).toBe(BigInt(0));
+  });
+
+  it('trims the LYX transfer first, then tokens from the end of the queue', () => {
+    const assets = [lsp7(), lsp8({ selectedTokenIds: [TOKEN_ID, TOKEN_ID_2] }), lyx];
+    // Enough for two transfers with the margin, not for the LYX amount
+    const balance = BigInt(300_000) * gasPrice;
+    const trimmed = trimToBalance(assets, DESTINATIONS, gasFor, gasPrice, { [FROM]: balance });
+    expect(trimmed[2].selected).toBe(false);
+    expect(trimmed[1].selectedTokenIds).toEqual([TOKEN_ID]);
+    expect(trimmed[0].selected).toBe(true);
+    expect(trimToBalance(assets, DESTINATIONS, gasFor, gasPrice, { [FROM]: BigInt(0) }).every(a => !a.selected)).toBe(true);
+  });
+});
+
+describe('decodeRevertReason', () => {
+  it('decodes Error(string)', () => {
+    // Error("nope")
+    const data: Hex = '0x08c379a0000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000046e6f706500000000000000000000000000000000000000000000000000000000';
+    expect(decodeRevertReason(data)).toEqual({ reason: 'nope' });
+  });
+
+  it('reports empty and unknown revert data', () => {
+    expect(decodeRevertReason('0x')).toEqual({ reason: 'Reverted without a reason' });
+    expect(decodeRevertReason('0xdeadbeef')).toEqual({ reason: 'Reverted with unknown error 0xdeadbeef' });
+  });
+});
+
+describe('deselectReverting', () => {
+  it('deselects reverting LSP7 assets and LSP8 token ids', () => {
+    const assets = deselectReverting([lsp7(), lsp8()], [
+      { from: FROM, address: lsp7().address, status: 'revert', reason: 'x' },
+      { from: FROM, address: lsp8().address, tokenId: TOKEN_ID, status: 'revert', reason: 'y' },
+    ]);
+    expect(assets[0].selected).toBe(false);
+    expect(assets[1].selectedTokenIds).toEqual([]);
+    expect(assets[1].selected).toBe(false);
+  });
+});
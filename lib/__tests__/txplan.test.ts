@@ -0,0 +1,123 @@
+import { pad, parseEther, parseUnits, toHex } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { NETWORKS } from '../networks';
+import { createNativeLyxAsset, planCalls, planLegs } from '../transfers';
+import { buildTransactionPlan, decodeTransaction, diffTransactionPlans, parseTransactionPlan, planFileName, planToJson } from '../txplan';
+import type { Destination, TokenAsset } from '../types';
+
+const SOURCE = '0x1111111111111111111111111111111111111111';
+const UP = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0xa000000000000000000000000000000000000001';
+const COLLECTION = '0xb000000000000000000000000000000000000001';
+const tokenId = (n: number) => pad(toHex(n), { size: 32 });
+
+const up: Destination = { id: 'main', address: UP, label: 'Main', connected: false, check: { status: 'verified' }, registerWithLSP1: true };
+
+const token: TokenAsset = {
+  source: SOURCE, address: TOKEN, name: 'Mock Token', symbol: 'MOCK', type: 'LSP7',
+  balance: parseUnits('1000', 18).toString(), decimals: 18, selected: true, transferAmount: '12.5',
+};
+const collection: TokenAsset = {
+  source: SOURCE, address: COLLECTION, name: 'Collectibles', symbol: 'MCOL', type: 'LSP8', balance: '3', decimals: 0,
+  selected: true, transferAmount: '3', tokenIds: [1, 2, 3].map(tokenId), selectedTokenIds: [tokenId(1), tokenId(3)],
+};
+const lyx: TokenAsset = { ...createNativeLyxAsset(SOURCE, parseEther('5')), selected: true, transferAmount: '2' };
+
+function plan(batch = false) {
+  const { calls, failed } = planCalls(planLegs([token, collection, lyx], [up]), batch ? { gasFor: () => BigInt(100_000) } : undefined);
+  return { plan: buildTransactionPlan(NETWORKS.mainnet, calls, call => BigInt(100_000) * BigInt(call.legs.length)), failed };
+}
+
+describe('buildTransactionPlan', () => {
+  it('lists one unsigned transaction per call, in the order they are sent', () => {
+    const { plan: single, failed } = plan();
+    expect(failed).toEqual([]);
+    expect(single.network).toBe('mainnet');
+    expect(single.transactions.map(tx => [tx.to, tx.value, tx.chainId, tx.gas])).toEqual([
+      [TOKEN, '0x0', 42, toHex(100_000)],
+      [COLLECTION, '0x0', 42, toHex(100_000)],
+      [COLLECTION, '0x0', 42, toHex(100_000)],
+      [UP, toHex(parseEther('2')), 42, toHex(100_000)],
+    ]);
+    expect(plan(true).plan.transactions.map(tx => tx.gas)).toEqual([toHex(100_000), toHex(200_000), toHex(100_000)]);
+  });
+
+  it('leaves out legs that cannot be sent', () => {
+    const { calls, failed } = planCalls(planLegs([{ ...token, transferAmount: '5000' }], [up]));
+    expect(calls).toEqual([]);
+    expect(failed).toEqual([{ ref: { from: SOURCE, address: TOKEN, tokenId: undefined, to: UP }, error: expect.stringContaining('balance') }]);
+  });
+});
+
+describe('planFileName', () => {
+  it('names the file after the signing account and date', () => {
+    const { plan: exported } = plan();
+    expect(planFileName({ ...exported, createdAt: Date.UTC(2025, 0, 31) })).toBe('lsp-migration-plan-0x111111-2025-01-31.json');
+    expect(planFileName({ ...exported, transactions: [], createdAt: Date.UTC(2025, 0, 31) })).toBe('lsp-migration-plan-empty-2025-01-31.json');
+  });
+});
+
+describe('diffTransactionPlans', () => {
+  it('finds the transactions a rebuilt plan added or dropped', () => {
+    const { plan: reviewed } = plan();
+    const regas = { ...reviewed, transactions: reviewed.transactions.map(tx => ({ ...tx, gas: toHex(1) })) };
+    expect(diffTransactionPlans(reviewed, regas)).toBeNull();
+
+    const { calls } = planCalls(planLegs([{ ...token, transferAmount: '20' }, collection, lyx], [up]));
+    const rebuilt = buildTransactionPlan(NETWORKS.mainnet, calls, () => BigInt(100_000));
+    expect(diffTransactionPlans(reviewed, rebuilt)).toEqual({ added: [0], removed: [0] });
+    // A batch replaces the collection's single transfers
+    expect(diffTransactionPlans(reviewed, plan(true).plan)).toEqual({ added: [1], removed: [1, 2] });
+    const reversed = { ...reviewed, transactions: [...reviewed.transactions].reverse() };
+    expect(diffTransactionPlans(reviewed, reversed)).toEqual({ added: [], removed: [] });
+  });
+});
+
+describe('decodeTransaction', () => {
+  it('reads back the function and arguments of every transfer', () => {
+    const [lsp7, batch, native] = plan(true).plan.transactions.map(decodeTransaction);
+    expect(lsp7).toEqual({
+      standard: 'LSP7',
+      functionName: 'transfer',
+      transfers: [{ from: SOURCE, to: UP, amount: parseUnits('12.5', 18), force: false, data: '0x' }],
+    });
+    expect(batch).toMatchObject({ standard: 'LSP8', functionName: 'transferBatch' });
+    expect(batch.transfers.map(t => [t.from, t.to, t.tokenId, t.force])).toEqual([
+      [SOURCE, UP, tokenId(1), false],
+      [SOURCE, UP, tokenId(3), false],
+    ]);
+    expect(native).toEqual({ standard: 'LYX', functionName: 'transfer', transfers: [{ from: SOURCE, to: UP, amount: parseEther('2') }] });
+  });
+
+  it('shows the selector of calldata it does not know', () => {
+    expect(decodeTransaction({ from: SOURCE, to: TOKEN, data: '0xdeadbeef00', value: '0x0' })).toEqual({ functionName: '0xdeadbeef', transfers: [] });
+  });
+});
+
+describe('parseTransactionPlan', () => {
+  it('round-trips an exported plan', () => {
+    const { plan: exported } = plan(true);
+    expect(parseTransactionPlan(planToJson(exported))).toEqual({ plan: exported });
+    const testnet = { ...exported, transactions: exported.transactions.map(tx => ({ ...tx, chainId: 4201 })) };
+    expect(parseTransactionPlan(JSON.stringify(testnet))).toEqual({ plan: { ...testnet, network: 'testnet' } });
+  });
+
+  it('rejects files that are not a valid plan', () => {
+    const { plan: exported } = plan();
+    const withTransaction = (tx: object) => JSON.stringify({ ...exported, transactions: [{ ...exported.transactions[0], ...tx }] });
+    expect(parseTransactionPlan('not json')).toEqual({ error: 'The file is not valid JSON.' });
+    expect(parseTransactionPlan('{"entries":[]}')).toEqual({ error: 'The file is not a transaction plan exported by this app.' });
+    expect(parseTransactionPlan(JSON.stringify({ ...exported, transactions: [] }))).toEqual({ error: 'The plan has no transactions.' });
+    expect(parseTransactionPlan(withTransaction({ to: '0x123' }))).toEqual({ error: 'Transaction 1: "to" is not an address.' });
+    expect(parseTransactionPlan(withTransaction({ data: '0xabc' }))).toEqual({ error: 'Transaction 1: "data" is not hex calldata.' });
+    expect(parseTransactionPlan(withTransaction({ value: '12' }))).toEqual({ error: 'Transaction 1: "value" is not a hex quantity.' });
+    expect(parseTransactionPlan(withTransaction({ chainId: 1 }))).toEqual({ error: 'Chain 1 is not LUKSO mainnet or testnet.' });
+    expect(parseTransactionPlan(withTransaction({ data: '0xdeadbeef00' }))).toEqual({
+      error: 'Transaction 1: not an LSP7 / LSP8 transfer or a LYX transfer (0xdeadbeef).',
+    });
+    expect(parseTransactionPlan(withTransaction({ value: '0x1' }))).toEqual({ error: 'Transaction 1: a token transfer must not send LYX.' });
+    expect(parseTransactionPlan(withTransaction({ from: UP }))).toEqual({ error: 'Transaction 1: transfers tokens of another account than its "from".' });
+    const mixed = { ...exported, transactions: [exported.transactions[0], { ...exported.transactions[1], chainId: 4201 }] };
+    expect(parseTransactionPlan(JSON.stringify(mixed))).toEqual({ error: 'The plan mixes transactions of several networks.' });
+  });
+});
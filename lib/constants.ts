@@ -0,0 +1,175 @@
+import type { Abi, Hex } from 'viem';
+import {
+  ErrorSelectors,
+  INTERFACE_IDS,
+  INTERFACE_ID_LSP7_PREVIOUS,
+  INTERFACE_ID_LSP8_PREVIOUS,
+} from '@lukso/lsp-smart-contracts';
+
+export const INDEXER_PAGE_SIZE = 100;
+export const INDEXER_MAX_PAGES = 200; // 20,000 holdings per standard
+
+// Shown for assets without LSP4 metadata; the spam filter looks for them
+export const UNKNOWN_TOKEN_NAME = 'Unknown Token';
+export const UNKNOWN_NFT_NAME = 'Unknown NFT';
+export const UNKNOWN_SYMBOL = '???';
+// LSP7 balances below this many whole tokens count as dust
+export const DUST_THRESHOLD = '0.0001';
+// Indivisible (zero-decimal) LSP7 balances up to this many tokens count as dust
+export const ZERO_DECIMAL_DUST_BALANCE = BigInt(1);
+
+export const RECEIPT_POLL_INTERVAL_MS = 2000;
+export const RECEIPT_TIMEOUT_MS = 5 * 60 * 1000;
+export const ACCOUNT_POLL_INTERVAL_MS = 1000; // while waiting for the user to switch accounts
+
+// LSP7 transfer(address from, address to, uint256 amount, bool force, bytes data)
+// and transferBatch with one array entry per transfer
+export const LSP7_TRANSFER_ABI = [
+  {
+    name: 'transfer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'force', type: 'bool' },
+      { name: 'data', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'transferBatch',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address[]' },
+      { name: 'to', type: 'address[]' },
+      { name: 'amount', type: 'uint256[]' },
+      { name: 'force', type: 'bool[]' },
+      { name: 'data', type: 'bytes[]' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+// LSP8 transfer(address from, address to, bytes32 tokenId, bool force, bytes data)
+// and transferBatch with one array entry per token ID
+export const LSP8_TRANSFER_ABI = [
+  {
+    name: 'transfer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'tokenId', type: 'bytes32' },
+      { name: 'force', type: 'bool' },
+      { name: 'data', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'transferBatch',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address[]' },
+      { name: 'to', type: 'address[]' },
+      { name: 'tokenId', type: 'bytes32[]' },
+      { name: 'force', type: 'bool[]' },
+      { name: 'data', type: 'bytes[]' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+// Read-only calls used to verify indexer data and to discover assets manually
+export const LSP7_READ_ABI = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenOwner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'decimals',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint8' }],
+  },
+] as const;
+
+export const LSP8_READ_ABI = [
+  {
+    name: 'tokenIdsOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenOwner', type: 'address' }],
+    outputs: [{ name: '', type: 'bytes32[]' }],
+  },
+  {
+    name: 'tokenOwnerOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+] as const;
+
+export const ERC725Y_ABI = [
+  {
+    name: 'supportsInterface',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'interfaceId', type: 'bytes4' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'getDataBatch',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'dataKeys', type: 'bytes32[]' }],
+    outputs: [{ name: '', type: 'bytes[]' }],
+  },
+] as const;
+
+// Custom errors of LSP7/LSP8 contracts, keyed by selector, used to decode reverts
+export const LSP_ERRORS = {
+  ...ErrorSelectors.LSP7DigitalAsset,
+  ...ErrorSelectors.LSP7Mintable,
+  ...ErrorSelectors.LSP8IdentifiableDigitalAsset,
+  ...ErrorSelectors.LSP8Mintable,
+} as Record<string, Extract<Abi[number], { type: 'error' }> & { devdoc?: Array<{ details?: string }> }>;
+
+export const SIMULATION_CONCURRENCY = 8;
+
+// Native LYX is listed as a pseudo-asset with this address
+export const NATIVE_LYX_ADDRESS = 'native';
+// Gas assumed for a queued transfer that has no simulated estimate
+export const DEFAULT_TRANSFER_GAS = BigInt(200_000);
+export const DEFAULT_LYX_TRANSFER_GAS = BigInt(60_000);
+// Upper bound for the summed gas estimates of the transfers in one
+// transferBatch; larger selections are split into several batches
+export const BATCH_GAS_BUDGET = BigInt(6_000_000);
+// Extra headroom on top of the estimated gas cost when reserving LYX
+export const GAS_RESERVE_MARGIN_PERCENT = 150;
+
+export const LSP7_INTERFACE_IDS = [INTERFACE_IDS.LSP7DigitalAsset, ...Object.values(INTERFACE_ID_LSP7_PREVIOUS)] as Hex[];
+export const LSP8_INTERFACE_IDS = [INTERFACE_IDS.LSP8IdentifiableDigitalAsset, ...Object.values(INTERFACE_ID_LSP8_PREVIOUS)] as Hex[];
+
+// localStorage key of the in-progress migration, see lib/session.ts
+export const SESSION_STORAGE_KEY = 'lsp-asset-mover:session';
+// Past migration reports, newest first, see lib/report.ts
+export const HISTORY_STORAGE_KEY = 'lsp-asset-mover:history';
+export const HISTORY_LIMIT = 50;
+// Network picked in the selector, see lib/networks.ts
+export const NETWORK_STORAGE_KEY = 'lsp-asset-mover:network';
+// Per-browser RPC / indexer / explorer overrides from the settings panel
+export const ENDPOINTS_STORAGE_KEY = 'lsp-asset-mover:endpoints';
+// The user's token blocklist and allowlist, see lib/spam.ts
+export const TOKEN_LISTS_STORAGE_KEY = 'lsp-asset-mover:token-lists';
+// How long the settings panel waits for each endpoint to answer
+export const HEALTH_CHECK_TIMEOUT_MS = 10_000;
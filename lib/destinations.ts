@@ -0,0 +1,28 @@
+import type { Destination, TransferStatus } from './types';
+
+export function createDestination(address: string, connected: boolean, existing: Destination[]): Destination {
+  return {
+    id: `${Date.now().toString(36)}-${existing.length}`,
+    address,
+    label: `Destination ${existing.length + 1}`,
+    connected,
+    check: { status: 'checking' },
+    registerWithLSP1: true,
+  };
+}
+
+// Only verified UPs can receive with force = false; everything else needs force = true
+export function destinationForce(destination: Destination): boolean {
+  return !(destination.check.status === 'verified' && destination.registerWithLSP1);
+}
+
+// The destination with the given id, falling back to the first one (e.g. when
+// an assigned destination has been removed)
+export function resolveDestination(destinations: Destination[], id: string | undefined): Destination | undefined {
+  return destinations.find(d => d.id === id) ?? destinations[0];
+}
+
+// Identity of a single transfer: source, asset, LSP8 token ID and destination
+export function transferKey(ref: Pick<TransferStatus, 'from' | 'address' | 'tokenId' | 'to'>): string {
+  return `${ref.from?.toLowerCase() ?? ''}:${ref.address}:${ref.tokenId ?? ''}:${ref.to?.toLowerCase() ?? ''}`;
+}
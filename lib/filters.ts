@@ -0,0 +1,66 @@
+import { formatUnits } from 'viem';
+import { isSameAccount } from './sources';
+import type { TokenAsset, TransferStatus } from './types';
+
+// What the Step 3 list shows: a text search, a standard, a selection or
+// transfer state, and the order within each source
+export interface AssetFilter {
+  query: string;
+  standard: 'all' | TokenAsset['type'];
+  state: 'all' | 'selected' | 'unselected' | AssetProgress;
+  sort: 'default' | 'name' | 'balance' | 'tokens';
+}
+
+export const DEFAULT_ASSET_FILTER: AssetFilter = { query: '', standard: 'all', state: 'all', sort: 'default' };
+
+// Where an asset's transfers stand, over all its token IDs and destinations
+export type AssetProgress = 'queued' | 'pending' | 'confirmed' | 'failed';
+
+export function getAssetProgress(asset: TokenAsset, statuses: TransferStatus[]): AssetProgress | undefined {
+  const own = statuses.filter(s => s.address === asset.address && isSameAccount(s.from, asset.source));
+  if (own.length === 0) return undefined;
+  if (own.some(s => s.status === 'reverted' || s.status === 'error')) return 'failed';
+  if (own.some(s => s.status === 'transferring' || s.status === 'submitted')) return 'pending';
+  if (own.every(s => s.status === 'confirmed')) return 'confirmed';
+  return 'queued';
+}
+
+export function isFilterActive(filter: AssetFilter): boolean {
+  return filter.query.trim() !== '' || filter.standard !== 'all' || filter.state !== 'all';
+}
+
+// Case-insensitive match on name, symbol or contract address
+export function matchesQuery(asset: TokenAsset, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [asset.name, asset.symbol, asset.address].some(value => value.toLowerCase().includes(q));
+}
+
+function matchesState(asset: TokenAsset, state: AssetFilter['state'], statuses: TransferStatus[]): boolean {
+  if (state === 'all') return true;
+  if (state === 'selected') return asset.selected;
+  if (state === 'unselected') return !asset.selected;
+  return getAssetProgress(asset, statuses) === state;
+}
+
+// Balances of different tokens compared in whole units
+function amountOf(asset: TokenAsset): number {
+  return Number(formatUnits(BigInt(asset.balance), asset.decimals));
+}
+
+const COMPARATORS: Record<Exclude<AssetFilter['sort'], 'default'>, (a: TokenAsset, b: TokenAsset) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+  balance: (a, b) => amountOf(b) - amountOf(a),
+  tokens: (a, b) => (b.tokenIds?.length ?? 0) - (a.tokenIds?.length ?? 0),
+};
+
+// Filter and sort the assets of one list. The sort is stable: ties, and the
+// default sort, keep the original (indexer) order.
+export function filterAssets(assets: TokenAsset[], filter: AssetFilter, statuses: TransferStatus[]): TokenAsset[] {
+  const visible = assets.filter(asset =>
+    matchesQuery(asset, filter.query)
+    && (filter.standard === 'all' || asset.type === filter.standard)
+    && matchesState(asset, filter.state, statuses)
+  );
+  return filter.sort === 'default' ? visible : visible.sort(COMPARATORS[filter.sort]);
+}
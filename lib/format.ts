@@ -0,0 +1,47 @@
+import { formatUnits, hexToString, type Hex } from 'viem';
+import type { Network } from './networks';
+
+export function getErrorMessage(error: unknown, fallback = 'Transfer failed'): string {
+  const err = error as { shortMessage?: string; message?: string };
+  return err?.shortMessage || err?.message || fallback;
+}
+
+export function getExplorerTxUrl(network: Network, txHash: string): string {
+  return `${network.explorerUrl.replace(/\/$/, '')}/tx/${txHash}`;
+}
+
+export function formatBalance(balance: string, decimals: number): string {
+  const formatted = formatUnits(BigInt(balance), decimals);
+  const num = parseFloat(formatted);
+  if (num === 0) return '0';
+  if (num < 0.0001) return '<0.0001';
+  if (num < 1) return num.toFixed(4);
+  if (num < 1000) return num.toFixed(2);
+  return num.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+// Small numeric token IDs read better as "#42"; anything else is shown as shortened hex
+export function formatTokenId(tokenId: string): string {
+  try {
+    const value = BigInt(tokenId);
+    if (value < BigInt(1_000_000)) return `#${value.toString()}`;
+  } catch {
+    // not a hex number — fall through
+  }
+  return `${tokenId.slice(0, 6)}...${tokenId.slice(-4)}`;
+}
+
+// Transfer data as the memo it was typed as, when it is printable UTF-8, or as
+// shortened hex with its length
+export function formatTransferData(data: Hex): string {
+  if (data === '0x') return 'none';
+  // Invalid UTF-8 decodes to U+FFFD
+  const text = hexToString(data);
+  if (!/[\u0000-\u001f\u007f\ufffd]/.test(text)) return `"${text}"`;
+  const bytes = (data.length - 2) / 2;
+  return `${data.length > 22 ? `${data.slice(0, 12)}...${data.slice(-8)}` : data} (${bytes} byte${bytes !== 1 ? 's' : ''})`;
+}
+
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
@@ -0,0 +1,70 @@
+import { HEALTH_CHECK_TIMEOUT_MS } from './constants';
+import { getErrorMessage } from './format';
+import { queryIndexer } from './indexer';
+import type { Endpoints, Network } from './networks';
+
+export interface EndpointHealth {
+  status: 'ok' | 'wrong-chain' | 'down';
+  chainId?: number; // as reported by the endpoint, when it reports one
+  latencyMs?: number;
+  error?: string;
+}
+
+export type NetworkHealth = Record<keyof Endpoints, EndpointHealth>;
+
+async function timed(check: () => Promise<number | undefined>, expectedChainId: number): Promise<EndpointHealth> {
+  const started = Date.now();
+  try {
+    const chainId = await check();
+    const latencyMs = Date.now() - started;
+    return { status: chainId === undefined || chainId === expectedChainId ? 'ok' : 'wrong-chain', chainId, latencyMs };
+  } catch (error) {
+    return { status: 'down', error: getErrorMessage(error, 'No response') };
+  }
+}
+
+// eth_chainId on the JSON-RPC node
+export function checkRpc(url: string, expectedChainId: number): Promise<EndpointHealth> {
+  return timed(async () => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`RPC request failed: ${res.status}`);
+    const json = await res.json() as { result?: string; error?: { message?: string } };
+    if (!json.result) throw new Error(json.error?.message || 'Invalid JSON-RPC response');
+    return Number(json.result);
+  }, expectedChainId);
+}
+
+// Envio indexers list the chains they index in chain_metadata
+export function checkIndexer(url: string, expectedChainId: number): Promise<EndpointHealth> {
+  return timed(async () => {
+    const data = await queryIndexer(url, '{ chain_metadata { chain_id } }', AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS)) as {
+      chain_metadata: Array<{ chain_id: number }>;
+    };
+    const chainIds = data.chain_metadata.map(c => Number(c.chain_id));
+    return chainIds.includes(expectedChainId) ? expectedChainId : chainIds[0];
+  }, expectedChainId);
+}
+
+// Explorers and IPFS gateways don't allow cross-origin reads, so this only
+// checks that the server answers at all; it reports no chain ID
+export function checkReachable(url: string, expectedChainId: number): Promise<EndpointHealth> {
+  return timed(async () => {
+    await fetch(url, { method: 'HEAD', mode: 'no-cors', signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS) });
+    return undefined;
+  }, expectedChainId);
+}
+
+export async function checkNetworkHealth(network: Network): Promise<NetworkHealth> {
+  const [rpcUrl, indexerUrl, explorerUrl, ipfsGatewayUrl] = await Promise.all([
+    checkRpc(network.rpcUrl, network.chain.id),
+    checkIndexer(network.indexerUrl, network.chain.id),
+    checkReachable(network.explorerUrl, network.chain.id),
+    checkReachable(network.ipfsGatewayUrl, network.chain.id),
+  ]);
+  return { rpcUrl, indexerUrl, explorerUrl, ipfsGatewayUrl };
+}
@@ -0,0 +1,39 @@
+// Hosts whose token images go through the Next.js image optimizer: the
+// default IPFS gateway (see lib/networks.ts), common public gateways and
+// Arweave, plus the gateways set in the environment. Images of other hosts
+// are loaded as they are (see AssetImage). Plain CommonJS, as next.config.js
+// reads it too.
+const IMAGE_HOSTS = [
+  'api.universalprofile.cloud',
+  'ipfs.io',
+  '*.ipfs.dweb.link',
+  '*.ipfs.w3s.link',
+  'arweave.net',
+];
+
+// The protocol and host of a gateway URL, or null when it isn't an http(s) URL
+function gatewayPattern(value) {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return { protocol: url.protocol.slice(0, -1), hostname: url.hostname, ...(url.port ? { port: url.port } : {}) };
+  } catch {
+    console.warn(`Ignoring the IPFS gateway "${value}": not a URL`);
+    return null;
+  }
+}
+
+/**
+ * `images.remotePatterns` for next.config.js. The variables are read one by
+ * one so Next.js inlines them in the browser bundle too.
+ * @returns {Array<{ protocol: 'http' | 'https'; hostname: string; port?: string }>}
+ */
+function imageRemotePatterns() {
+  const gateways = [process.env.NEXT_PUBLIC_IPFS_GATEWAY_URL, process.env.NEXT_PUBLIC_TESTNET_IPFS_GATEWAY_URL]
+    .map(gatewayPattern)
+    .filter(Boolean);
+  return [...IMAGE_HOSTS.map(hostname => ({ protocol: 'https', hostname })), ...gateways];
+}
+
+module.exports = { imageRemotePatterns };
@@ -0,0 +1,52 @@
+import { hexToBytes, keccak256, stringToHex } from 'viem';
+import { imageRemotePatterns } from './image-hosts';
+
+const REMOTE_PATTERNS = imageRemotePatterns();
+
+// A URL an <img> can load for an indexed image or icon: ipfs:// through the
+// network's gateway, ar:// through arweave.net. Unknown schemes resolve to
+// nothing so the caller falls back to an identicon.
+export function resolveImageUrl(url: string | undefined, gatewayUrl: string): string | undefined {
+  const value = url?.trim();
+  if (!value) return undefined;
+  const ipfs = value.match(/^ipfs:\/\/(?:ipfs\/)?(.+)$/i);
+  if (ipfs) return `${gatewayUrl.replace(/\/+$/, '')}/${ipfs[1]}`;
+  const arweave = value.match(/^ar:\/\/(.+)$/i);
+  if (arweave) return `https://arweave.net/${arweave[1]}`;
+  return /^(https?:|data:image\/)/i.test(value) ? value : undefined;
+}
+
+// Whether `url` is on a host of next.config.js' images.remotePatterns, so the
+// Next.js image optimizer serves it. A leading `*.` matches one subdomain.
+export function isOptimizedImageUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return REMOTE_PATTERNS.some(pattern => {
+    if (parsed.protocol !== `${pattern.protocol}:` || (pattern.port ?? '') !== parsed.port) return false;
+    if (!pattern.hostname.startsWith('*.')) return parsed.hostname === pattern.hostname;
+    const [label, ...rest] = parsed.hostname.split('.');
+    return label !== '' && rest.join('.') === pattern.hostname.slice(2);
+  });
+}
+
+// A 5×5 mirrored pattern and hue derived from the seed (e.g. a contract
+// address and token ID), as an SVG data URL. Stable across reloads.
+export function identicon(seed: string): string {
+  const bytes = hexToBytes(keccak256(stringToHex(seed.toLowerCase())));
+  const hue = ((bytes[0] << 8) | bytes[1]) % 360;
+  const cells: string[] = [];
+  for (let row = 0; row < 5; row++) {
+    for (let col = 0; col < 3; col++) {
+      if (bytes[2 + row * 3 + col] < 128) continue;
+      cells.push(`<rect x="${col}" y="${row}" width="1" height="1"/>`);
+      if (col < 2) cells.push(`<rect x="${4 - col}" y="${row}" width="1" height="1"/>`);
+    }
+  }
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 5 5" shape-rendering="crispEdges">`
+    + `<rect width="5" height="5" fill="hsl(${hue},25%,15%)"/><g fill="hsl(${hue},65%,60%)">${cells.join('')}</g></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
@@ -0,0 +1,184 @@
+import { formatUnits } from 'viem';
+import { INDEXER_MAX_PAGES, INDEXER_PAGE_SIZE, UNKNOWN_NFT_NAME, UNKNOWN_SYMBOL, UNKNOWN_TOKEN_NAME } from './constants';
+import { getErrorMessage } from './format';
+import { DEFAULT_NETWORK, NETWORKS, type Network } from './networks';
+import type { LSP7Hold, LSP8Hold, ScanProgress, ScanResult, TokenAsset, TokenMetadata } from './types';
+
+export async function queryIndexer(url: string, query: string, signal?: AbortSignal): Promise<unknown> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query }),
+    signal,
+  });
+  if (!res.ok) throw new Error(`Indexer request failed: ${res.status}`);
+  const json = await res.json();
+  if (json.errors) throw new Error(json.errors[0]?.message || 'GraphQL error');
+  return json.data;
+}
+
+// Page through a Hold query until the indexer returns a short page. If a later
+// page fails or the page cap is hit, the holds loaded so far are returned
+// together with a reason so the UI can warn that the scan is incomplete.
+export async function queryAllHolds<T>(
+  url: string,
+  buildQuery: (offset: number) => string,
+  onPage: (loaded: number) => void,
+): Promise<{ holds: T[]; incomplete?: string }> {
+  const holds: T[] = [];
+  for (let page = 0; page < INDEXER_MAX_PAGES; page++) {
+    let batch: T[];
+    try {
+      const data = await queryIndexer(url, buildQuery(page * INDEXER_PAGE_SIZE)) as { Hold: T[] };
+      batch = data.Hold;
+    } catch (error) {
+      if (holds.length === 0) throw error;
+      return { holds, incomplete: `The indexer stopped responding after ${holds.length} holdings (${getErrorMessage(error, 'request failed')}).` };
+    }
+    holds.push(...batch);
+    onPage(holds.length);
+    if (batch.length < INDEXER_PAGE_SIZE) return { holds };
+  }
+  return { holds, incomplete: `Stopped after ${holds.length} holdings because the scan limit was reached.` };
+}
+
+// The parts of a token's LSP4 metadata the list shows; nothing if it has none.
+// Images win over icons, which are usually smaller renditions.
+function toTokenMetadata(token: LSP8Hold['token']): TokenMetadata | undefined {
+  if (!token) return undefined;
+  const metadata: TokenMetadata = {
+    name: token.name || undefined,
+    imageUrl: token.images?.[0]?.src ?? token.icons?.[0]?.src,
+    attributes: token.attributes?.length ? token.attributes : undefined,
+  };
+  return metadata.name || metadata.imageUrl || metadata.attributes ? metadata : undefined;
+}
+
+export async function fetchTokensForAddress(
+  address: string,
+  onProgress: (progress: ScanProgress) => void = () => {},
+  network: Network = NETWORKS[DEFAULT_NETWORK],
+): Promise<ScanResult> {
+  const tokens: TokenAsset[] = [];
+  const addr = address.toLowerCase();
+  const progress: ScanProgress = { lsp7: 0, lsp8: 0 };
+
+  // Fetch LSP7 and LSP8 holdings in parallel from the Envio indexer.
+  // A stable order_by keeps offset pagination from skipping or repeating rows.
+  const [lsp7Result, lsp8Result] = await Promise.all([
+    queryAllHolds<LSP7Hold>(network.indexerUrl, (offset) => `{
+      Hold(
+        where: {
+          profile_id: { _eq: "${addr}" },
+          asset: { standard: { _eq: "LSP7DigitalAsset" } },
+          balance: { _gt: "0" }
+        },
+        order_by: { id: asc },
+        limit: ${INDEXER_PAGE_SIZE},
+        offset: ${offset}
+      ) {
+        balance
+        asset {
+          id
+          lsp4TokenName
+          lsp4TokenSymbol
+          decimals
+          icons(limit: 1) { src }
+        }
+      }
+    }`, (loaded) => {
+      progress.lsp7 = loaded;
+      onProgress({ ...progress });
+    }),
+    queryAllHolds<LSP8Hold>(network.indexerUrl, (offset) => `{
+      Hold(
+        where: {
+          profile_id: { _eq: "${addr}" },
+          baseAsset: { standard: { _eq: "LSP8IdentifiableDigitalAsset" } },
+          balance: { _gt: "0" }
+        },
+        order_by: { id: asc },
+        limit: ${INDEXER_PAGE_SIZE},
+        offset: ${offset}
+      ) {
+        balance
+        token_id
+        baseAsset_id
+        baseAsset {
+          id
+          lsp4TokenName
+          lsp4TokenSymbol
+          icons(limit: 1) { src }
+        }
+        token {
+          name
+          images(limit: 1) { src }
+          icons(limit: 1) { src }
+          attributes { key value }
+        }
+      }
+    }`, (loaded) => {
+      progress.lsp8 = loaded;
+      onProgress({ ...progress });
+    }),
+  ]);
+
+  // Process LSP7 tokens
+  for (const hold of lsp7Result.holds) {
+    if (!hold.asset) continue;
+    const decimals = hold.asset.decimals ?? 18;
+    tokens.push({
+      source: address,
+      address: hold.asset.id,
+      name: hold.asset.lsp4TokenName || UNKNOWN_TOKEN_NAME,
+      symbol: hold.asset.lsp4TokenSymbol || UNKNOWN_SYMBOL,
+      type: 'LSP7',
+      balance: hold.balance,
+      decimals,
+      selected: true,
+      iconUrl: hold.asset.icons?.[0]?.src,
+      transferAmount: formatUnits(BigInt(hold.balance), decimals),
+    });
+  }
+
+  // Process LSP8 tokens — group by collection, collect tokenIds
+  const collections = new Map<string, TokenAsset>();
+  for (const hold of lsp8Result.holds) {
+    if (!hold.baseAsset) continue;
+    const collectionAddr = hold.baseAsset.id;
+    // Extract the bytes32 tokenId from the compound token_id ("collectionAddr-tokenId")
+    const tokenId = hold.token_id.slice(hold.token_id.indexOf('-') + 1);
+    const metadata = toTokenMetadata(hold.token);
+
+    if (collections.has(collectionAddr)) {
+      const existing = collections.get(collectionAddr)!;
+      existing.balance = String(parseInt(existing.balance) + 1);
+      existing.tokenIds?.push(tokenId);
+      existing.selectedTokenIds?.push(tokenId);
+      if (metadata) existing.tokenMetadata = { ...existing.tokenMetadata, [tokenId]: metadata };
+    } else {
+      collections.set(collectionAddr, {
+        source: address,
+        address: collectionAddr,
+        name: hold.baseAsset.lsp4TokenName || UNKNOWN_NFT_NAME,
+        symbol: hold.baseAsset.lsp4TokenSymbol || UNKNOWN_SYMBOL,
+        type: 'LSP8',
+        balance: '1',
+        decimals: 0,
+        selected: true,
+        iconUrl: hold.baseAsset.icons?.[0]?.src,
+        tokenIds: [tokenId],
+        selectedTokenIds: [tokenId],
+        tokenMetadata: metadata ? { [tokenId]: metadata } : undefined,
+        transferAmount: '1',
+      });
+    }
+  }
+  tokens.push(...Array.from(collections.values()));
+
+  return {
+    tokens,
+    holdCount: lsp7Result.holds.length + lsp8Result.holds.length,
+    incomplete: [lsp7Result.incomplete, lsp8Result.incomplete].filter(Boolean).join(' ') || undefined,
+  };
+}
@@ -0,0 +1,362 @@
+import {
+  decodeFunctionData,
+  encodeErrorResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  keccak256,
+  RpcRequestError,
+  multicall3Abi,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem';
+import { lukso } from 'viem/chains';
+import { ERC725YDataKeys, INTERFACE_IDS } from '@lukso/lsp-smart-contracts';
+import {
+  ERC725Y_ABI,
+  LSP7_INTERFACE_IDS,
+  LSP7_READ_ABI,
+  LSP7_TRANSFER_ABI,
+  LSP8_INTERFACE_IDS,
+  LSP8_READ_ABI,
+  LSP8_TRANSFER_ABI,
+  LSP_ERRORS,
+} from '../constants';
+import type { EthereumProvider } from '../types';
+import {
+  MOCK_GAS_PRICE,
+  MOCK_LSP7_TOKENS,
+  MOCK_LSP8_COLLECTIONS,
+  MOCK_LYX_BALANCE,
+  MOCK_SECOND_SOURCE_ADDRESS,
+  MOCK_SECOND_SOURCE_LYX_BALANCE,
+  MOCK_SOURCE_ADDRESS,
+  MOCK_UP_ADDRESS,
+  MOCK_UP_ADDRESSES,
+  MOCK_UP_LYX_BALANCE,
+} from './fixtures';
+
+// happy: everything succeeds; reject: the wallet refuses every signature (4001);
+// revert: transactions are mined with status 0x0; indexer-error: Envio is down
+export type MockScenario = 'happy' | 'reject' | 'revert' | 'indexer-error' | 'no-gas';
+
+export const MOCK_SCENARIOS: MockScenario[] = ['happy', 'reject', 'revert', 'indexer-error', 'no-gas'];
+
+export interface MockTransaction {
+  hash: Hex;
+  from: string;
+  to: string;
+  data: Hex;
+  value: bigint;
+  status: '0x1' | '0x0';
+  calls?: MockCall[]; // set for a wallet_sendCalls bundle, sent from and to the account itself
+}
+
+export interface MockCall {
+  to: string;
+  data?: Hex;
+  value?: Hex;
+}
+
+export type MockChain = EthereumProvider & {
+  scenario: MockScenario;
+  transactions: MockTransaction[];
+  // Execute the calls atomically in one transaction; returns its hash
+  sendCalls: (from: string, calls: MockCall[]) => Hex;
+  // Reported by eth_chainId; the same ledger answers for mainnet and testnet
+  chainId: number;
+};
+
+// Error thrown by a JSON-RPC node for a reverted eth_call / eth_estimateGas
+class MockRevertError extends Error {
+  code = 3;
+  data: Hex;
+
+  constructor(data: Hex) {
+    super('execution reverted');
+    this.data = data;
+  }
+}
+
+// Error thrown by a wallet for a request it refuses or does not know
+export class MockProviderError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const CALL_ABI = [...LSP7_READ_ABI, ...LSP8_READ_ABI, ...ERC725Y_ABI, ...LSP7_TRANSFER_ABI, ...LSP8_TRANSFER_ABI, ...multicall3Abi];
+const MULTICALL3_ADDRESS = lukso.contracts.multicall3.address.toLowerCase();
+const DEPLOYED_CODE: Hex = '0x6080604052';
+
+function revertWithError(name: string, args: readonly unknown[]): never {
+  const abiItem = Object.values(LSP_ERRORS).find(e => e.name === name);
+  if (!abiItem) throw new Error(`Unknown LSP error ${name}`);
+  throw new MockRevertError(encodeErrorResult({ abi: [abiItem], errorName: name, args } as Parameters<typeof encodeErrorResult>[0]));
+}
+
+function revertWithReason(reason: string): never {
+  throw new MockRevertError(encodeErrorResult({
+    abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+    errorName: 'Error',
+    args: [reason],
+  }));
+}
+
+// An in-memory LUKSO node holding the fixture balances. It answers the
+// JSON-RPC methods the app uses, runs transfer() against its own state and
+// mines every transaction immediately.
+export function createMockChain(scenario: MockScenario = 'happy'): MockChain {
+  const lsp7Balances = new Map<string, Map<string, bigint>>(
+    MOCK_LSP7_TOKENS.map(t => [t.address, new Map([
+      [MOCK_SOURCE_ADDRESS, t.balance],
+      ...(t.secondSourceBalance ? [[MOCK_SECOND_SOURCE_ADDRESS, t.secondSourceBalance] as const] : []),
+    ])])
+  );
+  const lsp8Owners = new Map<string, Map<Hex, string>>(
+    MOCK_LSP8_COLLECTIONS.map(c => [c.address, new Map(c.tokenIds.map(id => [id, MOCK_SOURCE_ADDRESS]))])
+  );
+  const lyxBalances = new Map<string, bigint>([
+    // no-gas: the source holds tokens but no LYX to pay for their transfers
+    [MOCK_SOURCE_ADDRESS, scenario === 'no-gas' ? BigInt(0) : MOCK_LYX_BALANCE],
+    [MOCK_SECOND_SOURCE_ADDRESS, MOCK_SECOND_SOURCE_LYX_BALANCE],
+    [MOCK_UP_ADDRESS, MOCK_UP_LYX_BALANCE],
+  ]);
+  const transactions: MockTransaction[] = [];
+
+  const hasCode = (address: string) =>
+    MOCK_UP_ADDRESSES.includes(address) || lsp7Balances.has(address) || lsp8Owners.has(address) || address === MULTICALL3_ADDRESS;
+
+  const supportedInterfaces = (address: string): string[] => {
+    if (MOCK_UP_ADDRESSES.includes(address)) return [INTERFACE_IDS.LSP0ERC725Account, INTERFACE_IDS.LSP1UniversalReceiver];
+    if (lsp7Balances.has(address)) return [LSP7_INTERFACE_IDS[0]];
+    if (lsp8Owners.has(address)) return [LSP8_INTERFACE_IDS[0]];
+    return [];
+  };
+
+  // Mirrors the LSP1 notification check made when force is false
+  const checkReceiver = (prefix: 'LSP7' | 'LSP8', to: string, force: boolean) => {
+    if (force) return;
+    if (!hasCode(to)) revertWithError(`${prefix}NotifyTokenReceiverIsEOA`, [to]);
+    if (!supportedInterfaces(to).includes(INTERFACE_IDS.LSP1UniversalReceiver)) {
+      revertWithError(`${prefix}NotifyTokenReceiverContractMissingLSP1Interface`, [to]);
+    }
+  };
+
+  // Executes a call against contract `to` and returns the ABI-encoded result.
+  // When `commit` is false state changes are discarded (eth_call semantics).
+  const execute = (from: string, to: string, data: Hex, commit: boolean): Hex => {
+    // Plain value transfers and calls to EOAs have nothing to execute
+    if (!hasCode(to) || data === '0x') return '0x';
+    let decoded: { functionName: string; args?: readonly unknown[] };
+    try {
+      decoded = decodeFunctionData({ abi: CALL_ABI, data });
+    } catch {
+      // Unknown selector and no fallback function
+      throw new MockRevertError('0x');
+    }
+    const { functionName, args = [] } = decoded;
+    const lsp7 = MOCK_LSP7_TOKENS.find(t => t.address === to);
+    const lsp8 = MOCK_LSP8_COLLECTIONS.find(c => c.address === to);
+
+    switch (functionName) {
+      case 'aggregate3': {
+        const [calls] = args as readonly [readonly { target: Address; allowFailure: boolean; callData: Hex }[]];
+        const results = calls.map(({ target, allowFailure, callData }) => {
+          try {
+            return { success: true, returnData: execute(from, target.toLowerCase(), callData, false) };
+          } catch (error) {
+            if (!allowFailure || !(error instanceof MockRevertError)) throw error;
+            return { success: false, returnData: error.data };
+          }
+        });
+        return encodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', result: results });
+      }
+      case 'supportsInterface': {
+        const [interfaceId] = args as readonly [Hex];
+        return encodeFunctionResult({ abi: ERC725Y_ABI, functionName: 'supportsInterface', result: supportedInterfaces(to).includes(interfaceId) });
+      }
+      case 'getDataBatch': {
+        const [keys] = args as readonly [readonly Hex[]];
+        const token = lsp7 ?? lsp8;
+        const values = keys.map(key => {
+          if (key === ERC725YDataKeys.LSP4.LSP4TokenName) return toHex(token?.name ?? '');
+          if (key === ERC725YDataKeys.LSP4.LSP4TokenSymbol) return toHex(token?.symbol ?? '');
+          return '0x' as Hex;
+        });
+        return encodeFunctionResult({ abi: ERC725Y_ABI, functionName: 'getDataBatch', result: values });
+      }
+      case 'balanceOf': {
+        if (!lsp7) break;
+        const [owner] = args as readonly [Address];
+        return encodeFunctionResult({ abi: LSP7_READ_ABI, functionName: 'balanceOf', result: lsp7Balances.get(to)?.get(owner.toLowerCase()) ?? BigInt(0) });
+      }
+      case 'decimals': {
+        if (!lsp7) break;
+        return encodeFunctionResult({ abi: LSP7_READ_ABI, functionName: 'decimals', result: lsp7.decimals });
+      }
+      case 'tokenIdsOf': {
+        if (!lsp8) break;
+        const [owner] = args as readonly [Address];
+        const owned = Array.from(lsp8Owners.get(to) ?? []).filter(([, o]) => o === owner.toLowerCase()).map(([id]) => id);
+        return encodeFunctionResult({ abi: LSP8_READ_ABI, functionName: 'tokenIdsOf', result: owned });
+      }
+      case 'tokenOwnerOf': {
+        if (!lsp8) break;
+        const [tokenId] = args as readonly [Hex];
+        const owner = lsp8Owners.get(to)?.get(tokenId);
+        if (!owner) revertWithError('LSP8NonExistentTokenId', [tokenId]);
+        return encodeFunctionResult({ abi: LSP8_READ_ABI, functionName: 'tokenOwnerOf', result: owner as Address });
+      }
+      case 'transfer': {
+        if (lsp7) {
+          const [tFrom, tTo, amount, force] = args as readonly [Address, Address, bigint, boolean];
+          const balances = lsp7Balances.get(to)!;
+          const owner = tFrom.toLowerCase();
+          const recipient = tTo.toLowerCase();
+          const balance = balances.get(owner) ?? BigInt(0);
+          if (lsp7.revertReason) revertWithReason(lsp7.revertReason);
+          if (amount > balance) revertWithError('LSP7AmountExceedsBalance', [balance, tFrom, amount]);
+          checkReceiver('LSP7', recipient, force);
+          if (commit) {
+            balances.set(owner, balance - amount);
+            balances.set(recipient, (balances.get(recipient) ?? BigInt(0)) + amount);
+          }
+          return '0x';
+        }
+        if (lsp8) {
+          const [tFrom, tTo, tokenId, force] = args as readonly [Address, Address, Hex, boolean];
+          const owners = lsp8Owners.get(to)!;
+          const owner = owners.get(tokenId);
+          if (!owner) revertWithError('LSP8NonExistentTokenId', [tokenId]);
+          if (owner !== tFrom.toLowerCase()) revertWithError('LSP8NotTokenOwner', [owner, tokenId, from]);
+          checkReceiver('LSP8', tTo.toLowerCase(), force);
+          if (commit) owners.set(tokenId, tTo.toLowerCase());
+          return '0x';
+        }
+        break;
+      }
+      case 'transferBatch': {
+        if (!lsp7 && !lsp8) break;
+        // Replayed as single transfers; all of them are checked before any is applied
+        const [froms, tos, values, forces, datas] = args as readonly [Address[], Address[], (bigint | Hex)[], boolean[], Hex[]];
+        const transfers = froms.map((f, i) => lsp7
+          ? encodeFunctionData({ abi: LSP7_TRANSFER_ABI, functionName: 'transfer', args: [f, tos[i], values[i] as bigint, forces[i], datas[i]] })
+          : encodeFunctionData({ abi: LSP8_TRANSFER_ABI, functionName: 'transfer', args: [f, tos[i], values[i] as Hex, forces[i], datas[i]] }));
+        transfers.forEach(transfer => execute(from, to, transfer, false));
+        if (commit) transfers.forEach(transfer => execute(from, to, transfer, true));
+        return '0x';
+      }
+    }
+    // Unknown function on this contract: no fallback, so it reverts without data
+    throw new MockRevertError('0x');
+  };
+
+  const executeCall = (from: string, call: MockCall, commit: boolean) => {
+    const to = call.to.toLowerCase();
+    const value = BigInt(call.value ?? 0);
+    execute(from, to, call.data ?? '0x', commit);
+    if (value > BigInt(0)) {
+      const balance = lyxBalances.get(from) ?? BigInt(0);
+      if (value > balance) throw new MockRevertError('0x');
+      if (!commit) return;
+      lyxBalances.set(from, balance - value);
+      lyxBalances.set(to, (lyxBalances.get(to) ?? BigInt(0)) + value);
+    }
+  };
+
+  // Mine a transaction; reverts leave the balances untouched
+  const mine = (tx: Omit<MockTransaction, 'hash' | 'status'>, run: () => void): Hex => {
+    const hash = keccak256(toHex(`mock-tx-${transactions.length}`));
+    let status: MockTransaction['status'] = scenario === 'revert' ? '0x0' : '0x1';
+    if (status === '0x1') {
+      try {
+        run();
+      } catch (error) {
+        if (!(error instanceof MockRevertError)) throw error;
+        status = '0x0';
+      }
+    }
+    transactions.push({ ...tx, hash, status });
+    return hash;
+  };
+
+  const sendTransaction = (tx: { from: string; to: string; data?: Hex; value?: Hex }): Hex => {
+    const from = tx.from.toLowerCase();
+    return mine(
+      { from, to: tx.to.toLowerCase(), data: tx.data ?? '0x', value: BigInt(tx.value ?? 0) },
+      () => executeCall(from, tx, true),
+    );
+  };
+
+  const sendCalls = (sender: string, calls: MockCall[]): Hex => {
+    const from = sender.toLowerCase();
+    return mine({ from, to: from, data: '0x', value: BigInt(0), calls }, () => {
+      // Check every call first so a revert leaves nothing half-done
+      calls.forEach(call => executeCall(from, call, false));
+      calls.forEach(call => executeCall(from, call, true));
+    });
+  };
+
+  const request = async ({ method, params = [] }: { method: string; params?: unknown[] }): Promise<unknown> => {
+    try {
+      return handle(method, params);
+    } catch (error) {
+      // Surface reverts the way viem's HTTP transport does for a real node
+      if (!(error instanceof MockRevertError)) throw error;
+      throw new RpcRequestError({
+        body: { method, params },
+        error: { code: error.code, message: error.message, data: error.data },
+        url: 'mock://lukso',
+      });
+    }
+  };
+
+  const handle = (method: string, params: unknown[]): unknown => {
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(mockChain.chainId);
+      case 'net_version':
+        return String(mockChain.chainId);
+      case 'eth_blockNumber':
+        return toHex(1_000_000 + transactions.length);
+      case 'eth_gasPrice':
+        return toHex(MOCK_GAS_PRICE);
+      case 'eth_getCode':
+        return hasCode((params[0] as string).toLowerCase()) ? DEPLOYED_CODE : '0x';
+      case 'eth_getBalance':
+        return toHex(lyxBalances.get((params[0] as string).toLowerCase()) ?? BigInt(0));
+      case 'eth_call': {
+        const { from = MOCK_SOURCE_ADDRESS, to, data = '0x' } = params[0] as { from?: string; to: string; data?: Hex };
+        return execute(from.toLowerCase(), to.toLowerCase(), data, false);
+      }
+      case 'eth_estimateGas': {
+        const { from = MOCK_SOURCE_ADDRESS, to, data = '0x' } = params[0] as { from?: string; to: string; data?: Hex };
+        execute(from.toLowerCase(), to.toLowerCase(), data, false);
+        return toHex(data === '0x' ? 21_000 : 120_000);
+      }
+      case 'eth_sendTransaction':
+        return sendTransaction(params[0] as { from: string; to: string; data?: Hex; value?: Hex });
+      case 'eth_getTransactionReceipt': {
+        const tx = transactions.find(t => t.hash === params[0]);
+        if (!tx) return null;
+        return {
+          transactionHash: tx.hash,
+          status: tx.status,
+          blockNumber: toHex(1_000_000 + transactions.indexOf(tx) + 1),
+        };
+      }
+      case 'eth_getTransactionCount':
+        return toHex(transactions.filter(t => t.from === (params[0] as string).toLowerCase()).length);
+      default:
+        throw new MockProviderError(4200, `Mock chain does not support ${method}`);
+    }
+  };
+
+  const mockChain: MockChain = { request, scenario, transactions, sendCalls, chainId: lukso.id };
+  return mockChain;
+}
+
@@ -0,0 +1,132 @@
+import { pad, parseUnits, toHex, type Address, type Hex } from 'viem';
+import type { LSP7Hold, LSP8Hold } from '../types';
+
+// Addresses and balances served by the mock wallet, chain and indexer.
+// Everything is lowercase so it compares equal to what the indexer returns.
+
+export const MOCK_SOURCE_ADDRESS: Address = '0x1111111111111111111111111111111111111111';
+// A second account in the same mock wallet, for migrating several sources
+export const MOCK_SECOND_SOURCE_ADDRESS: Address = '0x5555555555555555555555555555555555555555';
+export const MOCK_UP_ADDRESS: Address = '0x2222222222222222222222222222222222222222';
+// A second profile that can be entered manually as another destination
+export const MOCK_SECOND_UP_ADDRESS: Address = '0x4444444444444444444444444444444444444444';
+export const MOCK_UP_ADDRESSES: string[] = [MOCK_UP_ADDRESS, MOCK_SECOND_UP_ADDRESS];
+
+export const MOCK_LYX_BALANCE = parseUnits('25', 18);
+export const MOCK_SECOND_SOURCE_LYX_BALANCE = parseUnits('5', 18);
+// Pays for gas top-ups of the sources
+export const MOCK_UP_LYX_BALANCE = parseUnits('100', 18);
+export const MOCK_GAS_PRICE = BigInt(1_000_000_000); // 1 gwei
+
+export interface MockLSP7Token {
+  address: Address;
+  name: string;
+  symbol: string;
+  decimals: number;
+  indexedBalance: bigint; // what the indexer reports
+  balance: bigint; // what balanceOf returns
+  secondSourceBalance?: bigint; // held by MOCK_SECOND_SOURCE_ADDRESS (indexer and chain agree)
+  revertReason?: string; // transfer() reverts with Error(string)
+}
+
+export interface MockLSP8Collection {
+  address: Address;
+  name: string;
+  symbol: string;
+  tokenIds: Hex[];
+  tokens: Array<LSP8Hold['token']>; // per-token LSP4 metadata, in tokenIds order
+}
+
+export const MOCK_LSP7_TOKENS: MockLSP7Token[] = [
+  {
+    address: '0xa000000000000000000000000000000000000001',
+    name: 'Mock Token',
+    symbol: 'MOCK',
+    decimals: 18,
+    indexedBalance: parseUnits('1000', 18),
+    balance: parseUnits('1000', 18),
+    secondSourceBalance: parseUnits('250', 18),
+  },
+  {
+    // The indexer lags behind: on-chain verification corrects the balance
+    address: '0xa000000000000000000000000000000000000002',
+    name: 'Stale Token',
+    symbol: 'STALE',
+    decimals: 6,
+    indexedBalance: parseUnits('500', 6),
+    balance: parseUnits('120', 6),
+  },
+  {
+    // Pre-flight simulation flags and deselects this one
+    address: '0xa000000000000000000000000000000000000003',
+    name: 'Soulbound Badge',
+    symbol: 'BADGE',
+    decimals: 0,
+    indexedBalance: BigInt(3),
+    balance: BigInt(3),
+    revertReason: 'Token is non-transferable',
+  },
+  {
+    // Airdropped junk that the spam filter hides and deselects
+    address: '0xa000000000000000000000000000000000000004',
+    name: 'Claim your reward at lsp-drop.xyz',
+    symbol: 'CLAIM',
+    decimals: 18,
+    indexedBalance: parseUnits('5000', 18),
+    balance: parseUnits('5000', 18),
+  },
+];
+
+export const MOCK_LSP8_COLLECTIONS: MockLSP8Collection[] = [
+  {
+    address: '0xb000000000000000000000000000000000000001',
+    name: 'Mock Collectibles',
+    symbol: 'MCOL',
+    tokenIds: [1, 2, 3].map(id => pad(toHex(id), { size: 32 })),
+    // The last token has no indexed metadata and gets an identicon
+    tokens: [
+      { name: 'Mock Collectible #1', images: [{ src: 'ipfs://QmMockCollectible1' }], icons: [], attributes: [{ key: 'Rarity', value: 'Rare' }] },
+      { name: 'Mock Collectible #2', images: [], icons: [{ src: 'ipfs://QmMockCollectible2Icon' }], attributes: [] },
+      null,
+    ],
+  },
+];
+
+export const MOCK_LSP7_HOLDS: LSP7Hold[] = MOCK_LSP7_TOKENS.map(token => ({
+  balance: token.indexedBalance.toString(),
+  asset: {
+    id: token.address,
+    lsp4TokenName: token.name,
+    lsp4TokenSymbol: token.symbol,
+    decimals: token.decimals,
+    icons: [],
+  },
+}));
+
+export const MOCK_SECOND_SOURCE_LSP7_HOLDS: LSP7Hold[] = MOCK_LSP7_TOKENS
+  .filter(token => token.secondSourceBalance)
+  .map(token => ({
+    balance: token.secondSourceBalance!.toString(),
+    asset: {
+      id: token.address,
+      lsp4TokenName: token.name,
+      lsp4TokenSymbol: token.symbol,
+      decimals: token.decimals,
+      icons: [],
+    },
+  }));
+
+export const MOCK_LSP8_HOLDS: LSP8Hold[] = MOCK_LSP8_COLLECTIONS.flatMap(collection =>
+  collection.tokenIds.map((tokenId, index) => ({
+    balance: '1',
+    token_id: tokenId,
+    baseAsset_id: collection.address,
+    baseAsset: {
+      id: collection.address,
+      lsp4TokenName: collection.name,
+      lsp4TokenSymbol: collection.symbol,
+      icons: [],
+    },
+    token: collection.tokens[index],
+  }))
+);
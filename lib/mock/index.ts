@@ -0,0 +1,47 @@
+import type { EIP6963ProviderDetail } from '../types';
+import { MOCK_SCENARIOS, createMockChain, type MockChain, type MockScenario } from './chain';
+import { MOCK_SECOND_SOURCE_ADDRESS, MOCK_SOURCE_ADDRESS, MOCK_UP_ADDRESS } from './fixtures';
+import { createMockIndexerFetch } from './indexer';
+import { MOCK_WALLET_INFO, createMockWallet, type MockWallet } from './wallet';
+
+export * from './chain';
+export * from './fixtures';
+export * from './indexer';
+export * from './wallet';
+
+export interface MockEnvironment {
+  chain: MockChain;
+  sourceWallet: MockWallet;
+  upWallet: MockWallet;
+}
+
+export function isMockModeEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_MOCK_MODE === 'true';
+}
+
+export function parseMockScenario(value: string | null | undefined): MockScenario {
+  return MOCK_SCENARIOS.find(s => s === value) ?? 'happy';
+}
+
+// Replace the browser's wallets and the Envio indexer with the offline mocks:
+// the source wallet is announced over EIP-6963, the UP wallet is exposed as
+// window.lukso, and fetch answers Hold queries from the fixtures. The
+// environment is kept on window.__LSP_MOCK__ for inspection from the console.
+export function installMockEnvironment(scenario: MockScenario): MockEnvironment {
+  const chain = createMockChain(scenario);
+  const sourceWallet = createMockWallet(chain, [MOCK_SOURCE_ADDRESS, MOCK_SECOND_SOURCE_ADDRESS]);
+  const upWallet = createMockWallet(chain, [MOCK_UP_ADDRESS]);
+  const env: MockEnvironment = { chain, sourceWallet, upWallet };
+
+  const detail: EIP6963ProviderDetail = Object.freeze({ info: MOCK_WALLET_INFO, provider: sourceWallet });
+  const announce = () => window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail }));
+  window.addEventListener('eip6963:requestProvider', announce);
+  announce();
+
+  const mockWindow = window as unknown as { lukso?: MockWallet; __LSP_MOCK__?: MockEnvironment };
+  mockWindow.lukso = upWallet;
+  mockWindow.__LSP_MOCK__ = env;
+  window.fetch = createMockIndexerFetch(scenario, window.fetch.bind(window));
+
+  return env;
+}
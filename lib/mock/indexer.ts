@@ -0,0 +1,47 @@
+import { NETWORKS } from '../networks';
+import type { MockScenario } from './chain';
+import {
+  MOCK_LSP7_HOLDS,
+  MOCK_LSP8_HOLDS,
+  MOCK_SECOND_SOURCE_ADDRESS,
+  MOCK_SECOND_SOURCE_LSP7_HOLDS,
+  MOCK_SOURCE_ADDRESS,
+} from './fixtures';
+
+type Fetch = typeof fetch;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Wrap fetch so Hold queries sent to the indexer of either network are
+// answered from the same fixtures, honouring limit/offset, and the health
+// check gets that network's chain id. Every other request goes to `fallback`.
+export function createMockIndexerFetch(scenario: MockScenario, fallback: Fetch): Fetch {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const network = Object.values(NETWORKS).find(n => n.indexerUrl === url);
+    if (!network) return fallback(input, init);
+
+    if (scenario === 'indexer-error') {
+      return jsonResponse({ errors: [{ message: 'Service unavailable' }] }, 503);
+    }
+
+    const { query } = JSON.parse(String(init?.body ?? '{}')) as { query?: string };
+    if (query?.includes('chain_metadata')) {
+      return jsonResponse({ data: { chain_metadata: [{ chain_id: network.chain.id }] } });
+    }
+    const profile = query?.match(/profile_id: \{ _eq: "(0x[0-9a-f]+)" \}/)?.[1];
+    const limit = Number(query?.match(/limit: (\d+)/)?.[1] ?? 100);
+    const offset = Number(query?.match(/offset: (\d+)/)?.[1] ?? 0);
+    const isLSP8 = query?.includes('LSP8IdentifiableDigitalAsset');
+    const holds: unknown[] = profile === MOCK_SOURCE_ADDRESS ? (isLSP8 ? MOCK_LSP8_HOLDS : MOCK_LSP7_HOLDS)
+      : profile === MOCK_SECOND_SOURCE_ADDRESS && !isLSP8 ? MOCK_SECOND_SOURCE_LSP7_HOLDS
+      : [];
+
+    return jsonResponse({ data: { Hold: holds.slice(offset, offset + limit) } });
+  };
+}
@@ -0,0 +1,119 @@
+import type { EIP6963ProviderInfo, EthereumProvider } from '../types';
+import { toHex } from 'viem';
+import { NETWORKS } from '../networks';
+import { MockProviderError, type MockCall, type MockChain } from './chain';
+
+type Listener = (...args: unknown[]) => void;
+
+export type MockWallet = EthereumProvider & {
+  on: (event: string, listener: Listener) => void;
+  removeListener: (event: string, listener: Listener) => void;
+  emit: (event: string, ...args: unknown[]) => void;
+  switchAccount: (account: string) => void;
+};
+
+export const MOCK_WALLET_INFO: EIP6963ProviderInfo = {
+  uuid: '00000000-0000-4000-8000-000000000001',
+  name: 'Mock Wallet',
+  // 1x1 transparent GIF so the wallet list renders an icon
+  icon: 'data:image/gif;base64,R0lGODlhAQABAAAAACH5BAEKAAEALAAAAAABAAEAAAICTAEAOw==',
+  rdns: 'dev.mock.wallet',
+};
+
+// A scripted EIP-1193 wallet holding `accounts`, backed by the mock chain.
+// Only the selected account (the first one initially) is exposed and can
+// sign; wallet_requestPermissions selects the next one, like picking another
+// account in the wallet. In the reject scenario every signature request fails
+// like a user clicking "Reject". Call bundles (EIP-5792) are executed
+// atomically as a single transaction. Switching the chain switches the whole
+// mock chain between the LUKSO networks.
+export function createMockWallet(chain: MockChain, accounts: string[]): MockWallet {
+  const listeners = new Map<string, Set<Listener>>();
+  let selected = accounts[0];
+
+  const emit = (event: string, ...args: unknown[]) => {
+    listeners.get(event)?.forEach(listener => listener(...args));
+  };
+
+  const switchAccount = (account: string) => {
+    selected = account;
+    emit('accountsChanged', [account]);
+  };
+
+  const authorize = (from: string | undefined) => {
+    if (from && from.toLowerCase() !== selected) {
+      throw new MockProviderError(4100, 'The requested account has not been authorized by the user.');
+    }
+    if (chain.scenario === 'reject') {
+      throw new MockProviderError(4001, 'User rejected the request.');
+    }
+  };
+
+  const bundles = new Map<string, string>(); // bundle id -> transaction hash
+
+  const request = async (args: { method: string; params?: unknown[] }): Promise<unknown> => {
+    switch (args.method) {
+      case 'eth_requestAccounts':
+      case 'eth_accounts':
+        return [selected];
+      case 'wallet_switchEthereumChain': {
+        const { chainId } = (args.params?.[0] ?? {}) as { chainId?: string };
+        const network = Object.values(NETWORKS).find(n => n.chainParams.chainId === chainId);
+        if (!network) throw new MockProviderError(4902, `Unrecognized chain ID "${chainId}".`);
+        chain.chainId = network.chain.id;
+        emit('chainChanged', chainId);
+        return null;
+      }
+      case 'wallet_addEthereumChain':
+        return null;
+      case 'wallet_requestPermissions':
+        switchAccount(accounts[(accounts.indexOf(selected) + 1) % accounts.length]);
+        return [{ parentCapability: 'eth_accounts' }];
+      case 'wallet_getPermissions':
+        return [{ parentCapability: 'eth_accounts' }];
+      case 'eth_sendTransaction': {
+        const { from } = (args.params?.[0] ?? {}) as { from?: string };
+        authorize(from);
+        return chain.request(args);
+      }
+      case 'wallet_getCapabilities':
+        return { [toHex(chain.chainId)]: { atomic: { status: 'supported' } } };
+      case 'wallet_sendCalls': {
+        const { from, calls } = (args.params?.[0] ?? {}) as { from?: string; calls: MockCall[] };
+        authorize(from);
+        const id = `mock-calls-${bundles.size}`;
+        bundles.set(id, chain.sendCalls(from ?? selected, calls));
+        return { id };
+      }
+      case 'wallet_getCallsStatus': {
+        const id = args.params?.[0] as string;
+        const hash = bundles.get(id);
+        if (!hash) throw new MockProviderError(5730, 'Unknown bundle id.');
+        const receipt = await chain.request({ method: 'eth_getTransactionReceipt', params: [hash] }) as { status: string };
+        return {
+          version: '2.0.0',
+          id,
+          chainId: toHex(chain.chainId),
+          atomic: true,
+          status: receipt.status === '0x1' ? 200 : 500,
+          receipts: [receipt],
+        };
+      }
+      default:
+        return chain.request(args);
+    }
+  };
+
+  return {
+    request,
+    on: (event, listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    },
+    removeListener: (event, listener) => {
+      listeners.get(event)?.delete(listener);
+    },
+    emit,
+    switchAccount,
+  };
+}
@@ -0,0 +1,152 @@
+import type { Chain } from 'viem';
+import { lukso, luksoTestnet } from 'viem/chains';
+import { ENDPOINTS_STORAGE_KEY, NETWORK_STORAGE_KEY } from './constants';
+
+export type NetworkId = 'mainnet' | 'testnet';
+
+// The services the app talks to on a network. Each can be replaced through
+// the environment (for a deployment) and in the settings panel (per browser).
+export interface Endpoints {
+  rpcUrl: string; // JSON-RPC node for reads, simulations and gas estimates
+  indexerUrl: string; // Envio GraphQL endpoint
+  explorerUrl: string; // block explorer base URL for tx links
+  ipfsGatewayUrl: string; // HTTP gateway that serves ipfs:// token images, ending in /ipfs/
+}
+
+export type EndpointOverrides = Partial<Record<NetworkId, Partial<Endpoints>>>;
+
+// Everything that differs between LUKSO mainnet and testnet
+export interface Network extends Endpoints {
+  id: NetworkId;
+  chain: Chain;
+  // wallet_addEthereumChain parameters; chainParams.chainId is the hex chain id wallet RPCs expect
+  chainParams: {
+    chainId: string;
+    chainName: string;
+    nativeCurrency: { name: string; symbol: string; decimals: number };
+    rpcUrls: string[];
+    blockExplorerUrls: string[];
+  };
+}
+
+// Drop unset and empty entries so they don't hide the defaults when spread
+function setEndpoints(endpoints: Partial<Endpoints> = {}): Partial<Endpoints> {
+  return Object.fromEntries(Object.entries(endpoints).filter(([, url]) => url));
+}
+
+// Next.js only inlines NEXT_PUBLIC_* variables that are read by their full name
+const ENV_ENDPOINTS: Record<NetworkId, Partial<Endpoints>> = {
+  mainnet: {
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL,
+    indexerUrl: process.env.NEXT_PUBLIC_INDEXER_URL,
+    explorerUrl: process.env.NEXT_PUBLIC_EXPLORER_URL,
+    ipfsGatewayUrl: process.env.NEXT_PUBLIC_IPFS_GATEWAY_URL,
+  },
+  testnet: {
+    rpcUrl: process.env.NEXT_PUBLIC_TESTNET_RPC_URL,
+    indexerUrl: process.env.NEXT_PUBLIC_TESTNET_INDEXER_URL,
+    explorerUrl: process.env.NEXT_PUBLIC_TESTNET_EXPLORER_URL,
+    ipfsGatewayUrl: process.env.NEXT_PUBLIC_TESTNET_IPFS_GATEWAY_URL,
+  },
+};
+
+const MAINNET_PARAMS: Network['chainParams'] = {
+  chainId: '0x2a',
+  chainName: 'LUKSO Mainnet',
+  nativeCurrency: { name: 'LUKSO', symbol: 'LYX', decimals: 18 },
+  rpcUrls: ['https://rpc.mainnet.lukso.network'],
+  blockExplorerUrls: ['https://explorer.execution.mainnet.lukso.network'],
+};
+
+const TESTNET_PARAMS: Network['chainParams'] = {
+  chainId: '0x1069',
+  chainName: 'LUKSO Testnet',
+  nativeCurrency: { name: 'LUKSO Testnet', symbol: 'LYXt', decimals: 18 },
+  rpcUrls: ['https://rpc.testnet.lukso.network'],
+  blockExplorerUrls: ['https://explorer.execution.testnet.lukso.network'],
+};
+
+// Serves the IPFS content of both networks
+const UNIVERSAL_PROFILE_IPFS_GATEWAY = 'https://api.universalprofile.cloud/ipfs/';
+
+// The networks as configured for this deployment: public endpoints unless
+// the environment names others. The wallet keeps the public chainParams.
+export const NETWORKS: Record<NetworkId, Network> = {
+  mainnet: {
+    id: 'mainnet',
+    chain: lukso,
+    chainParams: MAINNET_PARAMS,
+    rpcUrl: MAINNET_PARAMS.rpcUrls[0],
+    indexerUrl: 'https://envio.lukso-mainnet.universal.tech/v1/graphql',
+    explorerUrl: MAINNET_PARAMS.blockExplorerUrls[0],
+    ipfsGatewayUrl: UNIVERSAL_PROFILE_IPFS_GATEWAY,
+    ...setEndpoints(ENV_ENDPOINTS.mainnet),
+  },
+  testnet: {
+    id: 'testnet',
+    chain: luksoTestnet,
+    chainParams: TESTNET_PARAMS,
+    rpcUrl: TESTNET_PARAMS.rpcUrls[0],
+    indexerUrl: 'https://envio.lukso-testnet.universal.tech/v1/graphql',
+    explorerUrl: TESTNET_PARAMS.blockExplorerUrls[0],
+    ipfsGatewayUrl: UNIVERSAL_PROFILE_IPFS_GATEWAY,
+    ...setEndpoints(ENV_ENDPOINTS.testnet),
+  },
+};
+
+export const DEFAULT_NETWORK: NetworkId = 'mainnet';
+
+export function isNetworkId(value: unknown): value is NetworkId {
+  return value === 'mainnet' || value === 'testnet';
+}
+
+// A network with this browser's endpoint overrides applied
+export function resolveNetwork(id: NetworkId, overrides: EndpointOverrides): Network {
+  return { ...NETWORKS[id], ...setEndpoints(overrides[id]) };
+}
+
+export function isEndpointUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// The network picked in the selector, remembered per browser
+export function loadNetworkId(): NetworkId {
+  if (typeof window === 'undefined') return DEFAULT_NETWORK;
+  try {
+    const stored = window.localStorage.getItem(NETWORK_STORAGE_KEY);
+    return isNetworkId(stored) ? stored : DEFAULT_NETWORK;
+  } catch {
+    return DEFAULT_NETWORK;
+  }
+}
+
+export function saveNetworkId(id: NetworkId): void {
+  try {
+    window.localStorage.setItem(NETWORK_STORAGE_KEY, id);
+  } catch (error) {
+    console.error('Failed to save network:', error);
+  }
+}
+
+export function loadEndpointOverrides(): EndpointOverrides {
+  if (typeof window === 'undefined') return {};
+  try {
+    const raw = window.localStorage.getItem(ENDPOINTS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as EndpointOverrides : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveEndpointOverrides(overrides: EndpointOverrides): void {
+  try {
+    window.localStorage.setItem(ENDPOINTS_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error('Failed to save endpoint settings:', error);
+  }
+}
@@ -0,0 +1,227 @@
+import { formatUnits, hexToString, isAddress, type Address, type Hex, type PublicClient } from 'viem';
+import { ERC725YDataKeys, INTERFACE_IDS } from '@lukso/lsp-smart-contracts';
+import {
+  ERC725Y_ABI,
+  LSP7_INTERFACE_IDS,
+  LSP7_READ_ABI,
+  LSP8_INTERFACE_IDS,
+  LSP8_READ_ABI,
+  UNKNOWN_NFT_NAME,
+  UNKNOWN_SYMBOL,
+  UNKNOWN_TOKEN_NAME,
+} from './constants';
+import { formatBalance } from './format';
+import type { DestinationCheck, TokenAsset } from './types';
+
+// Compare indexer results with contract state. LSP7 balances come from
+// balanceOf; LSP8 ownership from tokenIdsOf, falling back to tokenOwnerOf per
+// token when tokenIdsOf is unavailable. Mismatches are corrected in place.
+export async function verifyAssetsOnChain(client: PublicClient, owner: string, assets: TokenAsset[]): Promise<TokenAsset[]> {
+  const ownerAddr = owner as Address;
+  const lsp7Assets = assets.filter(a => a.type === 'LSP7');
+  const lsp8Assets = assets.filter(a => a.type === 'LSP8');
+
+  const [balances, ownedIds] = await Promise.all([
+    client.multicall({
+      allowFailure: true,
+      contracts: lsp7Assets.map(a => ({
+        address: a.address as Address,
+        abi: LSP7_READ_ABI,
+        functionName: 'balanceOf' as const,
+        args: [ownerAddr] as const,
+      })),
+    }),
+    client.multicall({
+      allowFailure: true,
+      contracts: lsp8Assets.map(a => ({
+        address: a.address as Address,
+        abi: LSP8_READ_ABI,
+        functionName: 'tokenIdsOf' as const,
+        args: [ownerAddr] as const,
+      })),
+    }),
+  ]);
+
+  const verified = new Map<string, TokenAsset>();
+
+  lsp7Assets.forEach((asset, i) => {
+    const result = balances[i];
+    if (result.status === 'failure') {
+      verified.set(asset.address, { ...asset, onChainStatus: 'unverified', onChainNote: 'balanceOf call failed' });
+      return;
+    }
+    const onChainBalance = result.result;
+    if (onChainBalance === BigInt(asset.balance)) {
+      verified.set(asset.address, { ...asset, onChainStatus: 'verified' });
+      return;
+    }
+    verified.set(asset.address, {
+      ...asset,
+      balance: onChainBalance.toString(),
+      transferAmount: formatUnits(onChainBalance, asset.decimals),
+      selected: asset.selected && onChainBalance > BigInt(0),
+      onChainStatus: 'corrected',
+      onChainNote: `Indexer reported ${formatBalance(asset.balance, asset.decimals)}, on-chain balance is ${formatBalance(onChainBalance.toString(), asset.decimals)}`,
+    });
+  });
+
+  for (let i = 0; i < lsp8Assets.length; i++) {
+    const asset = lsp8Assets[i];
+    const indexerIds = asset.tokenIds ?? [];
+    const result = ownedIds[i];
+    let chainIds: string[];
+    if (result.status === 'success') {
+      chainIds = [...result.result];
+    } else {
+      // Older collections may not implement tokenIdsOf — check each known ID instead
+      const owners = await client.multicall({
+        allowFailure: true,
+        contracts: indexerIds.map(tokenId => ({
+          address: asset.address as Address,
+          abi: LSP8_READ_ABI,
+          functionName: 'tokenOwnerOf' as const,
+          args: [tokenId as Hex] as const,
+        })),
+      });
+      if (owners.every(o => o.status === 'failure')) {
+        verified.set(asset.address, { ...asset, onChainStatus: 'unverified', onChainNote: 'tokenIdsOf and tokenOwnerOf calls failed' });
+        continue;
+      }
+      chainIds = indexerIds.filter((_, j) => {
+        const o = owners[j];
+        return o.status === 'success' && o.result.toLowerCase() === owner.toLowerCase();
+      });
+    }
+
+    const indexerSet = new Set(indexerIds.map(id => id.toLowerCase()));
+    const chainSet = new Set(chainIds.map(id => id.toLowerCase()));
+    const matches = indexerSet.size === chainSet.size && Array.from(chainSet).every(id => indexerSet.has(id));
+    if (matches) {
+      verified.set(asset.address, { ...asset, onChainStatus: 'verified' });
+      continue;
+    }
+    verified.set(asset.address, {
+      ...asset,
+      balance: String(chainIds.length),
+      tokenIds: chainIds,
+      // Keep what the user picked, minus the token IDs no longer held
+      selectedTokenIds: (asset.selectedTokenIds ?? []).filter(id => chainSet.has(id.toLowerCase())),
+      selected: asset.selected && (asset.selectedTokenIds ?? []).some(id => chainSet.has(id.toLowerCase())),
+      onChainStatus: 'corrected',
+      onChainNote: `Indexer reported ${indexerIds.length} token${indexerIds.length !== 1 ? 's' : ''}, ${chainIds.length} held on-chain`,
+    });
+  }
+
+  return assets.map(a => verified.get(a.address) ?? a);
+}
+
+// Validate the destination's format and checksum, then ask it over ERC-165
+// whether it is an LSP0 ERC725Account with an LSP1 UniversalReceiver
+export async function checkDestination(client: PublicClient, address: string): Promise<DestinationCheck> {
+  if (!isAddress(address, { strict: false })) {
+    return { status: 'invalid', message: 'Not a valid address.' };
+  }
+  if (!isAddress(address)) {
+    return { status: 'invalid', message: 'Checksum mismatch — check the address for typos (upper/lower case matters).' };
+  }
+  const code = await client.getCode({ address });
+  if (!code || code === '0x') {
+    return { status: 'eoa', message: 'This is a plain externally owned account, not a Universal Profile.' };
+  }
+  const [lsp0, lsp1] = await client.multicall({
+    allowFailure: true,
+    contracts: [INTERFACE_IDS.LSP0ERC725Account, INTERFACE_IDS.LSP1UniversalReceiver].map(id => ({
+      address,
+      abi: ERC725Y_ABI,
+      functionName: 'supportsInterface' as const,
+      args: [id as Hex] as const,
+    })),
+  });
+  const isUP = lsp0.status === 'success' && lsp0.result && lsp1.status === 'success' && lsp1.result;
+  if (isUP) {
+    return { status: 'verified', message: 'Verified Universal Profile (LSP0 + LSP1).' };
+  }
+  return { status: 'contract', message: 'This is a contract, but not a Universal Profile.' };
+}
+
+// Discover a single token contract without the indexer: detect LSP7/LSP8 via
+// ERC-165, read the LSP4 name and symbol, then the owner's balance or token IDs.
+export async function discoverTokenOnChain(client: PublicClient, owner: string, tokenAddress: string): Promise<TokenAsset> {
+  const address = tokenAddress as Address;
+  const interfaceIds = [...LSP7_INTERFACE_IDS, ...LSP8_INTERFACE_IDS];
+  const supported = await client.multicall({
+    allowFailure: true,
+    contracts: interfaceIds.map(id => ({
+      address,
+      abi: ERC725Y_ABI,
+      functionName: 'supportsInterface' as const,
+      args: [id] as const,
+    })),
+  });
+  const isSupported = (id: Hex) => {
+    const result = supported[interfaceIds.indexOf(id)];
+    return result.status === 'success' && result.result;
+  };
+  const isLSP7 = LSP7_INTERFACE_IDS.some(isSupported);
+  const isLSP8 = !isLSP7 && LSP8_INTERFACE_IDS.some(isSupported);
+  if (!isLSP7 && !isLSP8) {
+    throw new Error('This contract does not implement LSP7 or LSP8');
+  }
+
+  let name = isLSP7 ? UNKNOWN_TOKEN_NAME : UNKNOWN_NFT_NAME;
+  let symbol = UNKNOWN_SYMBOL;
+  try {
+    const [rawName, rawSymbol] = await client.readContract({
+      address,
+      abi: ERC725Y_ABI,
+      functionName: 'getDataBatch',
+      args: [[ERC725YDataKeys.LSP4.LSP4TokenName as Hex, ERC725YDataKeys.LSP4.LSP4TokenSymbol as Hex]],
+    });
+    if (rawName && rawName !== '0x') name = hexToString(rawName);
+    if (rawSymbol && rawSymbol !== '0x') symbol = hexToString(rawSymbol);
+  } catch {
+    // metadata is optional — keep the placeholders
+  }
+
+  if (isLSP7) {
+    const [balance, decimals] = await Promise.all([
+      client.readContract({ address, abi: LSP7_READ_ABI, functionName: 'balanceOf', args: [owner as Address] }),
+      client.readContract({ address, abi: LSP7_READ_ABI, functionName: 'decimals' }).catch(() => 18),
+    ]);
+    return {
+      source: owner,
+      address,
+      name,
+      symbol,
+      type: 'LSP7',
+      balance: balance.toString(),
+      decimals,
+      selected: balance > BigInt(0),
+      transferAmount: formatUnits(balance, decimals),
+      onChainStatus: 'verified',
+      manual: true,
+    };
+  }
+
+  const tokenIds = [...await client.readContract({
+    address,
+    abi: LSP8_READ_ABI,
+    functionName: 'tokenIdsOf',
+    args: [owner as Address],
+  })] as string[];
+  return {
+    source: owner,
+    address,
+    name,
+    symbol,
+    type: 'LSP8',
+    balance: String(tokenIds.length),
+    decimals: 0,
+    selected: tokenIds.length > 0,
+    tokenIds,
+    selectedTokenIds: [...tokenIds],
+    transferAmount: '1',
+    onChainStatus: 'verified',
+    manual: true,
+  };
+}
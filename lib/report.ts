@@ -0,0 +1,176 @@
+import { HISTORY_LIMIT, HISTORY_STORAGE_KEY, NATIVE_LYX_ADDRESS } from './constants';
+import { getExplorerTxUrl } from './format';
+import type { Network, NetworkId } from './networks';
+import { isSameAccount } from './sources';
+import type { TokenAsset, TransferStatus } from './types';
+
+// One row per transfer: an LSP7/LYX asset, or a single LSP8 token ID
+export interface ReportEntry {
+  source: string;
+  destination: string;
+  asset: string; // contract address, or "native" for LYX
+  standard: TokenAsset['type'];
+  name: string;
+  symbol: string;
+  amount?: string; // human-readable (LSP7 / LYX)
+  tokenId?: string; // bytes32 (LSP8)
+  txHash?: string;
+  explorerUrl?: string;
+  status: TransferStatus['status'];
+  error?: string;
+}
+
+export interface MigrationReport {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  network: NetworkId;
+  sources: string[];
+  destinations: ReportDestination[];
+  entries: ReportEntry[];
+}
+
+export interface ReportDestination {
+  address: string;
+  label: string;
+  force: boolean;
+}
+
+export function createMigrationId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function buildReport({ id, network, sources, destinations, assets, statuses }: {
+  id: string;
+  network: Network; // with the endpoints in use, for the explorer links
+  sources: string[];
+  destinations: ReportDestination[];
+  assets: TokenAsset[];
+  statuses: TransferStatus[];
+}): MigrationReport {
+  const now = Date.now();
+  const entries = statuses.map((s): ReportEntry => {
+    const asset = assets.find(a => a.address === s.address && isSameAccount(a.source, s.from));
+    return {
+      source: s.from ?? sources[0] ?? '',
+      destination: s.to ?? destinations[0]?.address ?? '',
+      asset: s.address,
+      standard: asset?.type ?? (s.address === NATIVE_LYX_ADDRESS ? 'LYX' : s.tokenId ? 'LSP8' : 'LSP7'),
+      name: asset?.name ?? '',
+      symbol: asset?.symbol ?? '',
+      amount: asset && asset.type !== 'LSP8' ? s.amount ?? asset.transferAmount : undefined,
+      tokenId: s.tokenId,
+      txHash: s.txHash,
+      explorerUrl: s.txHash ? getExplorerTxUrl(network, s.txHash) : undefined,
+      status: s.status,
+      error: s.error,
+    };
+  });
+  return { id, createdAt: now, updatedAt: now, network: network.id, sources, destinations, entries };
+}
+
+const CSV_COLUMNS: Array<keyof ReportEntry> = [
+  'source', 'destination', 'asset', 'standard', 'name', 'symbol', 'amount', 'tokenId', 'txHash', 'explorerUrl', 'status', 'error',
+];
+
+function csvCell(value: string | undefined): string {
+  if (value === undefined) return '';
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function reportToCsv(report: MigrationReport): string {
+  const header = CSV_COLUMNS.join(',');
+  const rows = report.entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+export function reportToJson(report: MigrationReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+export function reportFileName(report: MigrationReport, extension: 'csv' | 'json'): string {
+  const date = new Date(report.createdAt).toISOString().slice(0, 10);
+  return `lsp-migration-${(report.sources[0] ?? '').slice(0, 8).toLowerCase() || 'report'}-${date}.${extension}`;
+}
+
+// Save `content` through a temporary download link
+export function downloadFile(fileName: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadReport(report: MigrationReport, format: 'csv' | 'json') {
+  const content = format === 'csv' ? reportToCsv(report) : reportToJson(report);
+  downloadFile(reportFileName(report, format), content, format === 'csv' ? 'text/csv' : 'application/json');
+}
+
+// --- History ---
+
+// Reports saved by earlier versions were mainnet-only and had a single source
+// (sourceAddress) and a single destination (upAddress and force)
+type StoredReport = Omit<MigrationReport, 'network' | 'sources' | 'destinations' | 'entries'> & {
+  network?: NetworkId;
+  sources?: string[];
+  sourceAddress?: string;
+  destinations?: ReportDestination[];
+  upAddress?: string;
+  force?: boolean;
+  entries: Array<Omit<ReportEntry, 'source' | 'destination'> & Partial<Pick<ReportEntry, 'source' | 'destination'>>>;
+};
+
+function upgradeReport({ sourceAddress, upAddress, force, ...report }: StoredReport): MigrationReport {
+  const sources = report.sources ?? [sourceAddress ?? ''];
+  const destinations = report.destinations ?? [{ address: upAddress ?? '', label: 'Destination 1', force: force ?? true }];
+  return {
+    ...report,
+    network: report.network ?? 'mainnet',
+    sources,
+    destinations,
+    entries: report.entries.map(entry => ({
+      ...entry,
+      source: entry.source ?? sources[0],
+      destination: entry.destination ?? destinations[0].address,
+    })),
+  };
+}
+
+export function loadHistory(): MigrationReport[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(HISTORY_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredReport[]).map(upgradeReport) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeHistory(history: MigrationReport[]) {
+  try {
+    window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Failed to save migration history:', error);
+  }
+}
+
+// Insert or update a report (newest first), keeping at most HISTORY_LIMIT.
+// Re-runs of the same migration keep the original creation time.
+export function saveToHistory(report: MigrationReport): MigrationReport[] {
+  const previous = loadHistory();
+  const existing = previous.find(r => r.id === report.id);
+  const updated = existing ? { ...report, createdAt: existing.createdAt } : report;
+  const history = [updated, ...previous.filter(r => r.id !== report.id)].slice(0, HISTORY_LIMIT);
+  writeHistory(history);
+  return history;
+}
+
+export function deleteFromHistory(id: string): MigrationReport[] {
+  const history = loadHistory().filter(r => r.id !== id);
+  writeHistory(history);
+  return history;
+}
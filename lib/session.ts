@@ -0,0 +1,141 @@
+import { SESSION_STORAGE_KEY } from './constants';
+import { resolveDestination, transferKey } from './destinations';
+import type { NetworkId } from './networks';
+import { isSameAccount } from './sources';
+import { BUNDLE_UNCONFIRMED_ERROR, planLegs } from './transfers';
+import type { Destination, SourceAccount, TokenAsset, TransferStatus } from './types';
+
+// Everything needed to pick a migration back up after a reload or crash.
+// Assets carry only strings, so the session round-trips through JSON as is.
+export interface SavedSession {
+  version: 3;
+  savedAt: number;
+  migrationId: string; // id of the report in the migration history
+  network: NetworkId;
+  sources: Array<Omit<SourceAccount, 'provider'>>;
+  destinations: Destination[];
+  assets: TokenAsset[];
+  transferStatuses: TransferStatus[];
+  transferData?: string; // migration-wide LSP1 data, see planLegs
+}
+
+export interface SessionSummary {
+  confirmed: number;
+  awaiting: number; // submitted, receipt not seen yet
+  interrupted: number; // unknown outcome, left deselected
+  remaining: number; // still selected for sending, including failed transfers
+}
+
+export const INTERRUPTED_ERROR = 'Interrupted before the wallet returned a transaction hash. Check your wallet activity before sending it again.';
+
+export function loadSession(): SavedSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as SavedSession;
+    if (session.version !== 3 || !session.sources?.length || !session.destinations?.length) return null;
+    // Sessions saved before the network selector are mainnet ones
+    return session.network ? session : { ...session, network: 'mainnet' };
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: Omit<SavedSession, 'version' | 'savedAt'>): void {
+  if (typeof window === 'undefined') return;
+  try {
+    // Wallet providers can't be stored; only the address and wallet name are kept
+    const sources = session.sources.map(({ address, walletName }) => ({ address, walletName }));
+    window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ ...session, sources, version: 3, savedAt: Date.now() }));
+  } catch (error) {
+    // Storage full or disabled (private mode) — the migration still works, it just can't be resumed
+    console.error('Failed to save session:', error);
+  }
+}
+
+export function clearSession(): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+// A migration is done once no started transfer is still waiting for its
+// signature or receipt, whether it was confirmed, reverted or failed
+export function isSessionComplete(statuses: TransferStatus[]): boolean {
+  return statuses.length > 0 && statuses.every(s => s.status !== 'pending' && s.status !== 'transferring' && s.status !== 'submitted');
+}
+
+// Transfers that must not be sent again: confirmed, or submitted and not yet
+// mined. So is anything with a hash that didn't revert (e.g. the receipt wait
+// timed out), and interrupted ones since the wallet may have sent them.
+function isSent(status: TransferStatus): boolean {
+  if (status.txHash) return status.status !== 'reverted';
+  return status.status === 'confirmed' || status.status === 'submitted' || status.status === 'transferring'
+    || status.error === INTERRUPTED_ERROR || status.error === BUNDLE_UNCONFIRMED_ERROR;
+}
+
+// The statuses of the transfers that must not be sent again (see isSent)
+export function keepSentTransfers(statuses: TransferStatus[]): TransferStatus[] {
+  return statuses.filter(isSent);
+}
+
+// Take every transfer that already has a transaction out of the selection, so
+// re-running the queue can never send an LSP7 amount twice. For an LSP7 / LYX
+// amount split across destinations only the sent portions are dropped.
+export function excludeSentTransfers(assets: TokenAsset[], statuses: TransferStatus[], destinations: Destination[]): TokenAsset[] {
+  const sent = statuses.filter(isSent);
+  if (sent.length === 0) return assets;
+  const sentKeys = new Set(sent.map(transferKey));
+  return assets.map(a => {
+    if (a.type === 'LSP8') {
+      // A token ID can only move once, whichever destination it went to
+      const sentIds = new Set(sent.filter(s => s.address === a.address && isSameAccount(s.from, a.source)).map(s => s.tokenId));
+      if (sentIds.size === 0) return a;
+      const selectedTokenIds = (a.selectedTokenIds ?? []).filter(id => !sentIds.has(id));
+      return { ...a, selectedTokenIds, selected: a.selected && selectedTokenIds.length > 0 };
+    }
+
+    const isPortionSent = (destinationId: string | undefined) => {
+      const to = resolveDestination(destinations, destinationId)?.address;
+      return sentKeys.has(transferKey({ from: a.source, address: a.address, to }));
+    };
+    const splits = (a.amountSplits ?? []).filter(split => !isPortionSent(split.destinationId));
+    if (!isPortionSent(a.destinationId)) {
+      return splits.length === (a.amountSplits ?? []).length ? a : { ...a, amountSplits: splits };
+    }
+    // The main amount is gone: the first unsent split takes its place
+    const [next, ...rest] = splits;
+    return next
+      ? { ...a, destinationId: next.destinationId, transferAmount: next.amount, amountSplits: rest }
+      : { ...a, selected: false, amountSplits: [] };
+  });
+}
+
+// Restore a saved session. A transfer that was waiting for its signature has
+// no hash to check, so it is flagged as interrupted instead of being re-sent.
+// One that failed after its hash came back (e.g. the receipt wait timed out)
+// is submitted again, so its receipt is polled.
+export function prepareResume(session: SavedSession): { assets: TokenAsset[]; transferStatuses: TransferStatus[] } {
+  const transferStatuses = session.transferStatuses.map((s): TransferStatus => {
+    if (s.status === 'error' && s.txHash) return { ...s, status: 'submitted', error: undefined };
+    if (s.status !== 'transferring') return s;
+    return s.txHash ? { ...s, status: 'submitted' } : { ...s, status: 'error', error: INTERRUPTED_ERROR };
+  });
+  return { assets: excludeSentTransfers(session.assets, transferStatuses, session.destinations), transferStatuses };
+}
+
+export function summarizeSession(session: SavedSession): SessionSummary {
+  const { assets, transferStatuses } = prepareResume(session);
+  const confirmed = transferStatuses.filter(s => s.status === 'confirmed').length;
+  const awaiting = transferStatuses.filter(s => s.status === 'submitted').length;
+  const interrupted = transferStatuses.filter(s => s.error === INTERRUPTED_ERROR || s.error === BUNDLE_UNCONFIRMED_ERROR).length;
+  const remaining = planLegs(assets, session.destinations, session.transferData).length;
+  return { confirmed, awaiting, interrupted, remaining };
+}
+
+// Replace the statuses of the transfers in `next`, keeping everything else
+// (e.g. confirmations from an earlier run) in place.
+export function mergeTransferStatuses(previous: TransferStatus[], next: TransferStatus[]): TransferStatus[] {
+  const replaced = new Set(next.map(transferKey));
+  return [...previous.filter(s => !replaced.has(transferKey(s))), ...next];
+}
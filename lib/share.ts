@@ -0,0 +1,192 @@
+import { formatUnits, isAddress, pad, type Hex } from 'viem';
+import { NATIVE_LYX_ADDRESS } from './constants';
+import { isNetworkId, type NetworkId } from './networks';
+import { isSameAccount } from './sources';
+import type { AmountSplit, Destination, TokenAsset } from './types';
+
+// A selection prepared in watch-only mode and carried in the page URL, e.g.
+// ?from=0x…&to=0x…,0x…&assets=0x<lsp7>:12.5_2~1,0x<lsp8>:0x1.0x2f~1,lyx@1:3
+//
+// - from / to: source and destination addresses, comma-separated
+// - assets: the selected assets, each `<contract or lyx>[@<source index>][:<value>]`
+//   where the value is an amount (LSP7 / LYX) or dot-separated token IDs
+//   without their leading zeros (LSP8). Without a value an LSP7 is sent in
+//   full and an LSP8 collection with all its tokens.
+// - network: `testnet`, when not on mainnet
+//
+// An amount or token ID followed by `~<destination index>` goes to that
+// destination instead of the first; the portions of a split amount are
+// separated by `_`.
+export interface SharedPlan {
+  network?: NetworkId;
+  sources: string[];
+  destinations: string[];
+  assets?: SharedAsset[]; // unset: keep the selection a scan starts with
+}
+
+export interface SharedAsset {
+  source: string;
+  address: string; // token contract, or NATIVE_LYX_ADDRESS
+  amount?: string;
+  to?: number; // index of the destination of `amount`; the first when unset
+  splits?: SharedSplit[]; // LSP7 / LYX: further portions of the amount
+  tokenIds?: string[]; // bytes32
+  tokenDestinations?: Record<string, number>; // LSP8: destination index per token ID, when not the first
+}
+
+export interface SharedSplit {
+  amount: string;
+  to: number;
+}
+
+const SHARE_PARAMS = ['network', 'from', 'to', 'assets'];
+const LYX_PARAM = 'lyx';
+const AMOUNT = /^\d+(\.\d+)?(~\d+)?$/;
+const TOKEN_ID = /^0x[0-9a-f]{1,64}(~\d+)?$/i;
+
+function compactTokenId(tokenId: string): string {
+  return `0x${BigInt(tokenId).toString(16)}`;
+}
+
+// `value` with the destination it goes to, unless that is the first
+function routed(value: string, to: number | undefined): string {
+  return to ? `${value}~${to}` : value;
+}
+
+// `value` and the destination index it names, if any
+function unrouted(value: string): [string, number | undefined] {
+  const [plain, to] = value.split('~');
+  return [plain, to === undefined ? undefined : Number(to)];
+}
+
+// The plan for the current selection, with where each amount and token ID goes
+export function createSharedPlan(network: NetworkId, sources: string[], destinations: Destination[], assets: TokenAsset[]): SharedPlan {
+  const selected = assets.filter(a => a.selected && sources.some(s => isSameAccount(s, a.source)));
+  // Unknown IDs fall back to the first destination, as in planLegs
+  const indexOf = (id: string | undefined) => Math.max(destinations.findIndex(d => d.id === id), 0) || undefined;
+  return {
+    network,
+    sources,
+    destinations: destinations.map(d => d.address),
+    assets: selected.map((a): SharedAsset => {
+      const shared: SharedAsset = { source: a.source, address: a.address.toLowerCase() };
+      if (a.type === 'LSP8') {
+        const tokenIds = a.selectedTokenIds ?? [];
+        const tokenDestinations = tokenIds.reduce<Record<string, number>>((routes, tokenId) => {
+          const to = indexOf(a.tokenDestinations?.[tokenId] ?? a.destinationId);
+          return to ? { ...routes, [tokenId]: to } : routes;
+        }, {});
+        return { ...shared, tokenIds, ...(Object.keys(tokenDestinations).length > 0 ? { tokenDestinations } : {}) };
+      }
+      const to = indexOf(a.destinationId);
+      const splits = (a.amountSplits ?? []).map(split => ({ amount: split.amount, to: indexOf(split.destinationId) ?? 0 }));
+      return { ...shared, amount: a.transferAmount, ...(to ? { to } : {}), ...(splits.length > 0 ? { splits } : {}) };
+    }),
+  };
+}
+
+// Write the plan into `base` (other parameters, e.g. a mock scenario, are kept)
+export function toShareParams(plan: SharedPlan, base: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  const params = new URLSearchParams(base);
+  SHARE_PARAMS.forEach(key => params.delete(key));
+  if (plan.network && plan.network !== 'mainnet') params.set('network', plan.network);
+  params.set('from', plan.sources.join(','));
+  if (plan.destinations.length > 0) params.set('to', plan.destinations.join(','));
+  if (plan.assets) {
+    params.set('assets', plan.assets.map(asset => {
+      const index = plan.sources.findIndex(s => isSameAccount(s, asset.source));
+      const id = (asset.address === NATIVE_LYX_ADDRESS ? LYX_PARAM : asset.address) + (index > 0 ? `@${index}` : '');
+      const value = asset.tokenIds
+        ? asset.tokenIds.map(tokenId => routed(compactTokenId(tokenId), asset.tokenDestinations?.[tokenId])).join('.')
+        : asset.amount && [routed(asset.amount, asset.to), ...(asset.splits ?? []).map(split => routed(split.amount, split.to))].join('_');
+      return value ? `${id}:${value}` : id;
+    }).join(','));
+  }
+  return params;
+}
+
+function parseAsset(entry: string, sources: string[], destinations: string[]): SharedAsset | string {
+  const [id, value] = entry.split(':');
+  const [address, index = '0'] = id.split('@');
+  const source = sources[Number(index)];
+  if (!/^\d+$/.test(index) || !source) return `${entry}: unknown source.`;
+  if (address !== LYX_PARAM && !isAddress(address)) return `${entry}: not a token contract.`;
+  const asset: SharedAsset = { source, address: address === LYX_PARAM ? NATIVE_LYX_ADDRESS : address.toLowerCase() };
+  if (value === undefined || value === '') return asset;
+
+  const portions = value.split('_');
+  const isAmount = portions.every(p => AMOUNT.test(p));
+  const tokenIds = value.split('.');
+  const routes = (isAmount ? portions : tokenIds).map(unrouted);
+  if (routes.some(([, to]) => to !== undefined && to >= destinations.length)) return `${entry}: unknown destination.`;
+  if (isAmount) {
+    const [[amount, to], ...splits] = routes;
+    return {
+      ...asset,
+      amount,
+      ...(to ? { to } : {}),
+      ...(splits.length > 0 ? { splits: splits.map(([split, splitTo]) => ({ amount: split, to: splitTo ?? 0 })) } : {}),
+    };
+  }
+  if (address === LYX_PARAM || !tokenIds.every(t => TOKEN_ID.test(t))) return `${entry}: invalid amount or token IDs.`;
+  const padded = routes.map(([tokenId, to]): [string, number | undefined] => [pad(tokenId.toLowerCase() as Hex, { size: 32 }), to]);
+  const tokenDestinations = Object.fromEntries(padded.filter((route): route is [string, number] => !!route[1]));
+  return {
+    ...asset,
+    tokenIds: padded.map(([tokenId]) => tokenId),
+    ...(Object.keys(tokenDestinations).length > 0 ? { tokenDestinations } : {}),
+  };
+}
+
+// The plan in a page's query string; null when it has none
+export function parseShareParams(params: URLSearchParams): { plan: SharedPlan } | { error: string } | null {
+  const from = params.get('from');
+  if (!from) return null;
+  const sources = from.split(',').filter(Boolean);
+  const destinations = (params.get('to') ?? '').split(',').filter(Boolean);
+  const invalid = [...sources, ...destinations].find(address => !isAddress(address));
+  if (invalid) return { error: `${invalid} is not an address.` };
+  const network = params.get('network') ?? undefined;
+  if (network !== undefined && !isNetworkId(network)) return { error: `Unknown network "${network}".` };
+
+  const plan: SharedPlan = { network, sources, destinations };
+  const assets = params.get('assets');
+  if (assets !== null) {
+    const parsed = assets.split(',').filter(Boolean).map(entry => parseAsset(entry, sources, destinations));
+    const error = parsed.find((p): p is string => typeof p === 'string');
+    if (error) return { error };
+    plan.assets = parsed as SharedAsset[];
+  }
+  return { plan };
+}
+
+// Select what the plan lists, with its amounts, token IDs and destinations,
+// and nothing else. Token IDs the source no longer owns are dropped; assets of
+// sources the plan doesn't cover keep their selection. Destinations are
+// matched by address, as their IDs differ between sessions.
+export function applySharedPlan(assets: TokenAsset[], plan: SharedPlan, destinations: Destination[]): TokenAsset[] {
+  const planned = plan.assets;
+  if (!planned) return assets;
+  const idOf = (to: number | undefined) => {
+    const address = plan.destinations[to ?? 0];
+    return (destinations.find(d => address && isSameAccount(d.address, address)) ?? destinations[0])?.id;
+  };
+  return assets.map(asset => {
+    if (!plan.sources.some(s => isSameAccount(s, asset.source))) return asset;
+    const shared = planned.find(p => p.address === asset.address.toLowerCase() && isSameAccount(p.source, asset.source));
+    if (!shared) {
+      return { ...asset, selected: false, ...(asset.type === 'LSP8' ? { selectedTokenIds: [] } : {}) };
+    }
+    if (asset.type === 'LSP8') {
+      const owned = asset.tokenIds ?? [];
+      const selectedTokenIds = shared.tokenIds ? owned.filter(id => shared.tokenIds!.includes(id.toLowerCase())) : owned;
+      const tokenDestinations = Object.fromEntries(selectedTokenIds
+        .filter(id => shared.tokenDestinations?.[id.toLowerCase()] !== undefined)
+        .map(id => [id, idOf(shared.tokenDestinations![id.toLowerCase()]) ?? '']));
+      return { ...asset, selected: selectedTokenIds.length > 0, selectedTokenIds, destinationId: idOf(undefined), tokenDestinations };
+    }
+    const transferAmount = shared.amount ?? (asset.type === 'LSP7' ? formatUnits(BigInt(asset.balance), asset.decimals) : '');
+    const amountSplits = shared.splits?.map((split): AmountSplit => ({ amount: split.amount, destinationId: idOf(split.to) ?? '' }));
+    return { ...asset, selected: transferAmount !== '', transferAmount, destinationId: idOf(shared.to), amountSplits };
+  });
+}
@@ -0,0 +1,24 @@
+import type { TokenAsset, TransferLeg } from './types';
+
+export const ACCOUNT_SKIPPED_ERROR = 'Skipped: the wallet was not switched to this account.';
+
+export function isSameAccount(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// Identity of an asset row: the same token can be held by several sources
+export function assetKey(asset: Pick<TokenAsset, 'source' | 'address'>): string {
+  return `${asset.source.toLowerCase()}:${asset.address}`;
+}
+
+// Split the planned legs per source account, keeping their order, so each
+// group can be sent through the wallet that holds that account
+export function groupLegsBySource(legs: TransferLeg[]): Array<{ source: string; legs: TransferLeg[] }> {
+  const groups: Array<{ source: string; legs: TransferLeg[] }> = [];
+  for (const leg of legs) {
+    const group = groups.find(g => isSameAccount(g.source, leg.asset.source));
+    if (group) group.legs.push(leg);
+    else groups.push({ source: leg.asset.source, legs: [leg] });
+  }
+  return groups;
+}
@@ -0,0 +1,99 @@
+import { isAddress, parseUnits } from 'viem';
+import {
+  DUST_THRESHOLD,
+  TOKEN_LISTS_STORAGE_KEY,
+  UNKNOWN_NFT_NAME,
+  UNKNOWN_SYMBOL,
+  UNKNOWN_TOKEN_NAME,
+  ZERO_DECIMAL_DUST_BALANCE,
+} from './constants';
+import type { NetworkId } from './networks';
+import bundledBlocklist from './spam-blocklist.json';
+import type { TokenAsset } from './types';
+
+// Token contracts the user has marked, lowercase. The allowlist wins over the
+// blocklists and every heuristic.
+export interface TokenLists {
+  blocked: string[];
+  allowed: string[];
+}
+
+export const EMPTY_TOKEN_LISTS: TokenLists = { blocked: [], allowed: [] };
+
+// Known spam contracts shipped with the app (lib/spam-blocklist.json), per
+// network and lowercase. Only the user's allowlist overrides it.
+export const BUNDLED_BLOCKLIST: Record<NetworkId, string[]> = {
+  mainnet: bundledBlocklist.mainnet.map((address: string) => address.toLowerCase()),
+  testnet: bundledBlocklist.testnet.map((address: string) => address.toLowerCase()),
+};
+
+// Links, domains and airdrop lures in a name or symbol
+const SUSPICIOUS_TEXT = /https?:\/\/|www\.|\.(com|io|xyz|net|org|app|site|top|link|live|gift|finance)\b|\b(claim|airdrop|reward|bonus|voucher|giveaway)s?\b/i;
+
+// Why an asset looks like spam; empty if it doesn't. LYX and tokens the user
+// added by address are never flagged.
+export function detectSpam(asset: TokenAsset, lists: TokenLists, network: NetworkId): string[] {
+  if (asset.type === 'LYX' || asset.manual) return [];
+  const address = asset.address.toLowerCase();
+  if (lists.allowed.includes(address)) return [];
+
+  const reasons: string[] = [];
+  if (BUNDLED_BLOCKLIST[network].includes(address)) reasons.push('On the bundled blocklist');
+  if (lists.blocked.includes(address)) reasons.push('On your blocklist');
+  if (asset.name === UNKNOWN_TOKEN_NAME || asset.name === UNKNOWN_NFT_NAME || asset.symbol === UNKNOWN_SYMBOL) {
+    reasons.push('No LSP4 name or symbol');
+  }
+  if (SUSPICIOUS_TEXT.test(`${asset.name} ${asset.symbol}`)) reasons.push('Name looks like a link or an airdrop lure');
+  if (asset.iconUrl && !/^(https|ipfs):/i.test(asset.iconUrl)) reasons.push('Icon served from an unusual URL');
+  if (asset.type === 'LSP7' && asset.decimals === 0) {
+    if (BigInt(asset.balance) <= ZERO_DECIMAL_DUST_BALANCE) reasons.push(`Dust balance (${ZERO_DECIMAL_DUST_BALANCE} indivisible token or less)`);
+  } else if (asset.type === 'LSP7' && BigInt(asset.balance) < parseUnits(DUST_THRESHOLD, asset.decimals)) {
+    reasons.push(`Dust balance (under ${DUST_THRESHOLD})`);
+  }
+  return reasons;
+}
+
+// Flag suspected spam and deselect it. Assets that are no longer suspected
+// lose the flag but stay deselected until the user picks them.
+export function applySpamFilter(assets: TokenAsset[], lists: TokenLists, network: NetworkId): TokenAsset[] {
+  return assets.map(asset => {
+    const reasons = detectSpam(asset, lists, network);
+    if (reasons.length === 0) return asset.spam ? { ...asset, spam: undefined } : asset;
+    return { ...asset, spam: reasons, selected: false, ...(asset.type === 'LSP8' ? { selectedTokenIds: [] } : {}) };
+  });
+}
+
+// Move a contract onto one list, taking it off the other
+export function markToken(lists: TokenLists, address: string, list: keyof TokenLists): TokenLists {
+  const addr = address.toLowerCase();
+  const without = (entries: string[]) => entries.filter(entry => entry !== addr);
+  return list === 'blocked'
+    ? { blocked: [...without(lists.blocked), addr], allowed: without(lists.allowed) }
+    : { blocked: without(lists.blocked), allowed: [...without(lists.allowed), addr] };
+}
+
+// One address per line (commas and spaces work too), as edited in the settings
+export function parseAddressList(text: string): { addresses: string[] } | { error: string } {
+  const entries = text.split(/[\s,]+/).filter(Boolean);
+  const invalid = entries.find(entry => !isAddress(entry));
+  if (invalid) return { error: `${invalid} is not an address.` };
+  return { addresses: Array.from(new Set(entries.map(entry => entry.toLowerCase()))) };
+}
+
+export function loadTokenLists(): TokenLists {
+  if (typeof window === 'undefined') return EMPTY_TOKEN_LISTS;
+  try {
+    const raw = window.localStorage.getItem(TOKEN_LISTS_STORAGE_KEY);
+    return raw ? { ...EMPTY_TOKEN_LISTS, ...JSON.parse(raw) as Partial<TokenLists> } : EMPTY_TOKEN_LISTS;
+  } catch {
+    return EMPTY_TOKEN_LISTS;
+  }
+}
+
+export function saveTokenLists(lists: TokenLists): void {
+  try {
+    window.localStorage.setItem(TOKEN_LISTS_STORAGE_KEY, JSON.stringify(lists));
+  } catch (error) {
+    console.error('Failed to save token lists:', error);
+  }
+}
@@ -0,0 +1,564 @@
+import {
+  BaseError,
+  decodeErrorResult,
+  encodeFunctionData,
+  isHex,
+  parseUnits,
+  stringToHex,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import {
+  BATCH_GAS_BUDGET,
+  GAS_RESERVE_MARGIN_PERCENT,
+  LSP7_TRANSFER_ABI,
+  LSP8_TRANSFER_ABI,
+  LSP_ERRORS,
+  NATIVE_LYX_ADDRESS,
+  SIMULATION_CONCURRENCY,
+} from './constants';
+import { destinationForce, resolveDestination } from './destinations';
+import { assetKey, groupLegsBySource, isSameAccount } from './sources';
+import { getErrorMessage } from './format';
+import { estimateViaProvider, sendCallsViaProvider, sendViaProvider, waitForCalls, waitForReceipt, type CallsResult } from './wallets';
+import type {
+  Destination,
+  EthereumProvider,
+  PlannedTransfer,
+  SimulationResult,
+  TokenAsset,
+  TransferLeg,
+  TransferStatus,
+  WalletCall,
+} from './types';
+
+// force = false only succeeds when the receiver implements LSP1, which lets a
+// Universal Profile register the incoming asset; force = true sends to any address
+// data is handed to the sender's and receiver's LSP1 universal receivers
+export function encodeLSP7Transfer(from: string, to: string, amount: bigint, force: boolean, data: Hex = '0x'): Hex {
+  return encodeFunctionData({
+    abi: LSP7_TRANSFER_ABI,
+    functionName: 'transfer',
+    args: [from as Address, to as Address, amount, force, data],
+  });
+}
+
+export function encodeLSP8Transfer(from: string, to: string, tokenId: string, force: boolean, data: Hex = '0x'): Hex {
+  return encodeFunctionData({
+    abi: LSP8_TRANSFER_ABI,
+    functionName: 'transfer',
+    args: [from as Address, to as Address, tokenId as Hex, force, data],
+  });
+}
+
+// A single transferBatch call for legs of the same LSP7 / LSP8 contract and
+// source (see batchLegs), with one array entry per leg
+export function encodeTransferBatch(legs: TransferLeg[]): Hex {
+  const from = legs.map(l => l.asset.source as Address);
+  const to = legs.map(l => l.to as Address);
+  const force = legs.map(l => l.force);
+  const data = legs.map(l => l.data);
+  if (legs[0].asset.type === 'LSP8') {
+    const tokenIds = legs.map(l => l.tokenId as Hex);
+    return encodeFunctionData({ abi: LSP8_TRANSFER_ABI, functionName: 'transferBatch', args: [from, to, tokenIds, force, data] });
+  }
+  const amounts = legs.map(l => {
+    const parsed = parseTransferAmount(l.asset, l.amount);
+    if ('error' in parsed) throw new Error(parsed.error);
+    return parsed.amount;
+  });
+  return encodeFunctionData({ abi: LSP7_TRANSFER_ABI, functionName: 'transferBatch', args: [from, to, amounts, force, data] });
+}
+
+// Parse and validate the user-entered LSP7 amount against the balance
+export function parseTransferAmount(asset: TokenAsset, value = asset.transferAmount): { amount: bigint } | { error: string } {
+  let amount: bigint;
+  try {
+    amount = parseUnits(value, asset.decimals);
+  } catch {
+    return { error: 'Invalid amount' };
+  }
+  if (amount <= BigInt(0)) return { error: 'Amount must be greater than 0' };
+  if (amount > BigInt(asset.balance)) return { error: 'Amount exceeds balance' };
+  return { amount };
+}
+
+// Parse the data field of a transfer: 0x-prefixed input is taken as raw hex,
+// anything else as a UTF-8 memo. Empty means no data.
+export function parseTransferData(value: string): { data: Hex } | { error: string } {
+  const input = value.trim();
+  if (!input) return { data: '0x' };
+  if (/^0x/i.test(input)) {
+    if (!isHex(input)) return { error: 'Data is not valid hex' };
+    if (input.length % 2 !== 0) return { error: 'Hex data needs an even number of digits' };
+    return { data: input.toLowerCase() as Hex };
+  }
+  return { data: stringToHex(input) };
+}
+
+// Expand the selected assets into one leg per transaction: an LSP7 / LYX asset
+// gives its main amount plus one leg per split, an LSP8 collection one leg per
+// selected token ID. Native LYX goes last so the token transfers still have gas.
+// Token transfers carry the asset's own data, or else the migration's
+// `defaultData`; LYX is a plain value transfer and never carries data.
+export function planLegs(assets: TokenAsset[], destinations: Destination[], defaultData = ''): TransferLeg[] {
+  const legs: TransferLeg[] = [];
+  const leg = (asset: TokenAsset, destinationId: string | undefined, extra: Partial<TransferLeg>): TransferLeg | undefined => {
+    const destination = resolveDestination(destinations, destinationId);
+    return destination && { asset, to: destination.address, force: destinationForce(destination), data: '0x', ...extra };
+  };
+
+  for (const asset of assets) {
+    if (!asset.selected) continue;
+    const parsedData = asset.type === 'LYX' ? { data: '0x' as Hex } : parseTransferData(asset.transferData ?? defaultData);
+    const dataError = 'error' in parsedData ? parsedData.error : undefined;
+    const data = 'data' in parsedData ? parsedData.data : '0x';
+    if (asset.type === 'LSP8') {
+      for (const tokenId of asset.selectedTokenIds ?? []) {
+        const l = leg(asset, asset.tokenDestinations?.[tokenId] ?? asset.destinationId, { tokenId, data, error: dataError });
+        if (l) legs.push(l);
+      }
+      continue;
+    }
+
+    const portions = [
+      { destinationId: asset.destinationId, amount: asset.transferAmount },
+      ...(asset.amountSplits ?? []),
+    ];
+    const parsed = portions.map(p => parseTransferAmount(asset, p.amount));
+    const total = parsed.reduce((sum, p) => sum + ('amount' in p ? p.amount : BigInt(0)), BigInt(0));
+    const exceeds = portions.length > 1 && total > BigInt(asset.balance);
+    const targets = portions.map(p => resolveDestination(destinations, p.destinationId)?.id);
+    const duplicate = new Set(targets).size !== targets.length;
+    portions.forEach((portion, i) => {
+      const result = parsed[i];
+      const error = 'error' in result
+        ? result.error
+        : duplicate ? 'Each split needs a different destination' : exceeds ? 'Split amounts exceed balance' : dataError;
+      const l = leg(asset, portion.destinationId, { amount: portion.amount, data, error });
+      if (l) legs.push(l);
+    });
+  }
+  return [...legs.filter(l => l.asset.type !== 'LYX'), ...legs.filter(l => l.asset.type === 'LYX')];
+}
+
+function isBatchable(leg: TransferLeg): boolean {
+  if (leg.error) return false;
+  if (leg.asset.type === 'LSP8') return !!leg.tokenId;
+  return leg.asset.type === 'LSP7' && 'amount' in parseTransferAmount(leg.asset, leg.amount);
+}
+
+// Group consecutive legs of the same contract and source into transferBatch
+// calls. A batch is closed once the summed gas of its transfers (gasFor, e.g.
+// the simulated estimate) would exceed the budget. LYX and invalid legs stay
+// on their own, as do legs that are the only ones of their contract.
+export function batchLegs(legs: TransferLeg[], gasFor: (leg: TransferLeg) => bigint, budget = BATCH_GAS_BUDGET): TransferLeg[][] {
+  const batches: TransferLeg[][] = [];
+  let batchGas = BigInt(0);
+  for (const leg of legs) {
+    const current = batches[batches.length - 1];
+    const gas = gasFor(leg);
+    const fits = !!current && isBatchable(leg) && isBatchable(current[0])
+      && assetKey(current[0].asset) === assetKey(leg.asset) && batchGas + gas <= budget;
+    if (fits) {
+      current.push(leg);
+      batchGas += gas;
+    } else {
+      batches.push([leg]);
+      batchGas = gas;
+    }
+  }
+  return batches;
+}
+
+// Sum of the valid split amounts of an LSP7 / LYX asset, in base units
+export function splitTotal(asset: TokenAsset): bigint {
+  return (asset.amountSplits ?? []).reduce((sum, split) => {
+    const parsed = parseTransferAmount(asset, split.amount);
+    return 'amount' in parsed ? sum + parsed.amount : sum;
+  }, BigInt(0));
+}
+
+// Every token transfer call the selected assets would send, in execution order.
+// Legs with an invalid amount are left out; the transfer loop reports them.
+// Native LYX transfers are not contract calls and are left out as well.
+export function planTransfers(assets: TokenAsset[], destinations: Destination[], defaultData = ''): PlannedTransfer[] {
+  const planned: PlannedTransfer[] = [];
+  for (const { asset, tokenId, amount, to, force, data, error } of planLegs(assets, destinations, defaultData)) {
+    if (error) continue;
+    const from = asset.source;
+    if (asset.type === 'LSP7') {
+      const parsed = parseTransferAmount(asset, amount);
+      if ('amount' in parsed) {
+        planned.push({ from, address: asset.address, to, data: encodeLSP7Transfer(from, to, parsed.amount, force, data) });
+      }
+    } else if (asset.type === 'LSP8' && tokenId) {
+      planned.push({ from, address: asset.address, tokenId, to, data: encodeLSP8Transfer(from, to, tokenId, force, data) });
+    }
+  }
+  return planned;
+}
+
+export function createNativeLyxAsset(source: string, balance: bigint): TokenAsset {
+  return {
+    source,
+    address: NATIVE_LYX_ADDRESS,
+    name: 'LUKSO',
+    symbol: 'LYX',
+    type: 'LYX',
+    balance: balance.toString(),
+    decimals: 18,
+    // Off by default: sending LYX is opt-in and needs an amount that leaves gas
+    selected: false,
+    transferAmount: '',
+  };
+}
+
+// LYX to hold back so the queued token transfers and the LYX transfer itself
+// can still pay for gas, with a safety margin for fee changes
+export function estimateGasReserve(tokenTransferGas: bigint[], lyxTransferGas: bigint, gasPrice: bigint): bigint {
+  const totalGas = tokenTransferGas.reduce((sum, gas) => sum + gas, lyxTransferGas);
+  return totalGas * gasPrice * BigInt(GAS_RESERVE_MARGIN_PERCENT) / BigInt(100);
+}
+
+// What the planned legs of one source cost: `fee` is the expected gas cost,
+// `required` adds the safety margin and the LYX being sent. `missing` is how
+// much LYX the balance is short of that (0 when it covers it, or when the
+// balance is unknown).
+export interface SourceCost {
+  source: string;
+  gas: bigint;
+  fee: bigint;
+  required: bigint;
+  balance?: bigint;
+  missing: bigint;
+}
+
+// Cost per source of sending the legs one transaction each, with gasFor giving
+// each leg's estimate. Batches and bundles use less gas, so this is an upper
+// bound. Legs with an invalid amount are never sent and cost nothing.
+export function estimateSourceCosts(
+  legs: TransferLeg[],
+  gasFor: (leg: TransferLeg) => bigint,
+  gasPrice: bigint,
+  balances: Record<string, bigint>, // by lowercase source address
+): SourceCost[] {
+  return groupLegsBySource(legs.filter(leg => !leg.error)).map(({ source, legs }) => {
+    const gas = legs.reduce((sum, leg) => sum + gasFor(leg), BigInt(0));
+    const value = legs.reduce((sum, leg) => {
+      const parsed = leg.asset.type === 'LYX' ? parseTransferAmount(leg.asset, leg.amount) : null;
+      return parsed && 'amount' in parsed ? sum + parsed.amount : sum;
+    }, BigInt(0));
+    const fee = gas * gasPrice;
+    const required = fee * BigInt(GAS_RESERVE_MARGIN_PERCENT) / BigInt(100) + value;
+    const balance = balances[source.toLowerCase()];
+    const missing = balance !== undefined && required > balance ? required - balance : BigInt(0);
+    return { source, gas, fee, required, balance, missing };
+  });
+}
+
+// Drop planned transfers until every source can pay for its own: the LYX
+// transfer goes first, then token transfers from the end of the queue.
+export function trimToBalance(
+  assets: TokenAsset[],
+  destinations: Destination[],
+  gasFor: (leg: TransferLeg) => bigint,
+  gasPrice: bigint,
+  balances: Record<string, bigint>,
+  defaultData = '',
+): TokenAsset[] {
+  let trimmed = assets;
+  for (;;) {
+    const legs = planLegs(trimmed, destinations, defaultData);
+    const short = estimateSourceCosts(legs, gasFor, gasPrice, balances).find(cost => cost.missing > BigInt(0));
+    if (!short) return trimmed;
+    // Native LYX is planned last, so it is dropped before any token
+    const last = legs.filter(leg => !leg.error && isSameAccount(leg.asset.source, short.source)).pop()!;
+    trimmed = trimmed.map(a => {
+      if (a !== last.asset) return a;
+      if (a.type !== 'LSP8') return { ...a, selected: false };
+      const selectedTokenIds = (a.selectedTokenIds ?? []).filter(id => id !== last.tokenId);
+      return { ...a, selectedTokenIds, selected: selectedTokenIds.length > 0 };
+    });
+  }
+}
+
+// Revert data sits on the innermost error (the RPC error for eth_call /
+// eth_estimateGas), either as a hex string or nested as { data }
+export function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const inner = error.walk() as { data?: Hex | { data?: Hex } };
+  const data = inner?.data;
+  return typeof data === 'object' ? data?.data : data;
+}
+
+// Turn revert data into "ErrorName(arg, ...)" using the LSP7/LSP8 custom
+// errors, plus the standard Error(string) and Panic(uint256)
+export function decodeRevertReason(data: Hex | undefined): { reason: string; details?: string } {
+  if (!data || data === '0x') return { reason: 'Reverted without a reason' };
+  const known = LSP_ERRORS[data.slice(0, 10)];
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: known ? [known] : [], data });
+    if (errorName === 'Error' && args?.length) return { reason: String(args[0]) };
+    const formattedArgs = (args ?? []).map((arg: unknown) => String(arg)).join(', ');
+    return { reason: `${errorName}(${formattedArgs})`, details: known?.devdoc?.[0]?.details };
+  } catch {
+    return { reason: `Reverted with unknown error ${data.slice(0, 10)}` };
+  }
+}
+
+export async function simulateTransfer(client: PublicClient, transfer: PlannedTransfer): Promise<SimulationResult> {
+  const request = { account: transfer.from as Address, to: transfer.address as Address, data: transfer.data };
+  const base = { from: transfer.from, address: transfer.address, tokenId: transfer.tokenId, to: transfer.to };
+  try {
+    await client.call(request);
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (revertData === undefined && !(error instanceof BaseError && /revert/i.test(error.message))) {
+      return { ...base, status: 'unknown', reason: getErrorMessage(error, 'Simulation failed') };
+    }
+    return { ...base, status: 'revert', ...decodeRevertReason(revertData) };
+  }
+  try {
+    const gas = await client.estimateGas(request);
+    return { ...base, status: 'ok', gas: gas.toString() };
+  } catch (error) {
+    return { ...base, status: 'revert', ...decodeRevertReason(getRevertData(error)) };
+  }
+}
+
+// Simulate every planned transfer, a few at a time to stay under RPC rate limits
+export async function simulateTransfers(client: PublicClient, transfers: PlannedTransfer[]): Promise<SimulationResult[]> {
+  const results: SimulationResult[] = [];
+  for (let i = 0; i < transfers.length; i += SIMULATION_CONCURRENCY) {
+    const chunk = transfers.slice(i, i + SIMULATION_CONCURRENCY);
+    results.push(...await Promise.all(chunk.map(t => simulateTransfer(client, t))));
+  }
+  return results;
+}
+
+// Deselect every asset / token ID whose simulated transfer would revert
+export function deselectReverting(assets: TokenAsset[], results: SimulationResult[]): TokenAsset[] {
+  const reverting = results.filter(r => r.status === 'revert');
+  if (reverting.length === 0) return assets;
+  return assets.map(a => {
+    const failed = reverting.filter(r => r.address === a.address && isSameAccount(r.from, a.source));
+    if (failed.length === 0) return a;
+    if (a.type === 'LSP7') return { ...a, selected: false };
+    const failedIds = new Set(failed.map(r => r.tokenId));
+    const selectedTokenIds = (a.selectedTokenIds ?? []).filter(id => !failedIds.has(id));
+    return { ...a, selectedTokenIds, selected: selectedTokenIds.length > 0 };
+  });
+}
+
+// --- Execution ---
+
+export interface ExecuteTransfersOptions {
+  provider: EthereumProvider; // must have every leg's source account available
+  legs: TransferLeg[]; // see planLegs
+  onStatus: (ref: TransferRef, update: Partial<TransferStatus>) => void;
+  // Send the legs of each contract as transferBatch calls (see batchLegs)
+  batch?: { gasFor: (leg: TransferLeg) => bigint };
+  // Called before every transaction, e.g. to check the wallet is still on the
+  // right account and chain. Resolving false stops the queue.
+  beforeSend?: () => Promise<boolean>;
+}
+
+export const QUEUE_STOPPED_ERROR = 'Stopped: the wallet changed account or network before this transfer was sent.';
+export const BATCH_REVERTS_ERROR = 'Not sent: the transferBatch would revert. Deselect the failing transfer (see the simulation) or turn batching off, then review again.';
+export const BUNDLE_UNCONFIRMED_ERROR = 'The wallet accepted the bundle but its outcome is unknown. Check your wallet activity before sending it again.';
+
+export type TransferRef = Pick<TransferStatus, 'from' | 'address' | 'tokenId' | 'to'>;
+
+export function legRef(leg: TransferLeg): TransferRef {
+  return { from: leg.asset.source, address: leg.asset.address, tokenId: leg.tokenId, to: leg.to };
+}
+
+// The call that sends a single leg, or the reason it can't be sent
+function legCall(leg: TransferLeg): WalletCall | { error: string } {
+  const from = leg.asset.source;
+  if (leg.error) return { error: leg.error };
+  if (leg.asset.type === 'LSP8' && leg.tokenId) {
+    return { to: leg.asset.address, data: encodeLSP8Transfer(from, leg.to, leg.tokenId, leg.force, leg.data) };
+  }
+  const parsed = parseTransferAmount(leg.asset, leg.amount);
+  if ('error' in parsed) return parsed;
+  return leg.asset.type === 'LYX'
+    ? { to: leg.to, data: '0x', value: parsed.amount }
+    : { to: leg.asset.address, data: encodeLSP7Transfer(from, leg.to, parsed.amount, leg.force, leg.data) };
+}
+
+// A call that sends one leg, or a transferBatch covering several legs of a contract
+export interface PlannedCall {
+  from: string; // source account that signs
+  refs: TransferRef[];
+  legs: TransferLeg[];
+  call: WalletCall;
+}
+
+// The calls that send `legs` of one or more sources, combining the legs of a
+// contract into transferBatch calls when `batch` is set, as executeBundle
+// sends them. Legs that can't be sent are returned with their reason.
+export function planCalls(legs: TransferLeg[], batch?: { gasFor: (leg: TransferLeg) => bigint }): {
+  calls: PlannedCall[];
+  failed: Array<{ ref: TransferRef; error: string }>;
+} {
+  const calls: PlannedCall[] = [];
+  const failed: Array<{ ref: TransferRef; error: string }> = [];
+  const groups = batch ? batchLegs(legs, batch.gasFor) : legs.map(leg => [leg]);
+  for (const group of groups) {
+    const from = group[0].asset.source;
+    if (group.length > 1) {
+      calls.push({ from, refs: group.map(legRef), legs: group, call: { to: group[0].asset.address, data: encodeTransferBatch(group) } });
+      continue;
+    }
+    const call = legCall(group[0]);
+    if ('error' in call) {
+      failed.push({ ref: legRef(group[0]), error: call.error });
+    } else {
+      calls.push({ from, refs: [legRef(group[0])], legs: group, call });
+    }
+  }
+  return { calls, failed };
+}
+
+export function initialTransferStatuses(legs: TransferLeg[]): TransferStatus[] {
+  return legs.map(leg => ({ ...legRef(leg), amount: leg.amount, status: 'pending' }));
+}
+
+// Send every leg through the pinned provider and wait for the receipts,
+// reporting each status change through onStatus. LSP7 / LYX legs are sent and
+// confirmed one by one; LSP8 token IDs and the batches of a contract are all
+// submitted first and then confirmed. A batch is dry-run with eth_estimateGas
+// first and not sent if that fails: its legs are never split into single
+// transfers the review didn't show. Failures are reported per leg and never
+// abort the queue; only beforeSend can stop it, and what was submitted is still confirmed.
+export async function executeTransfers({ provider, legs, onStatus, batch, beforeSend }: ExecuteTransfersOptions): Promise<void> {
+  let stopped = false;
+  // Resolves false, after marking the refs, once the queue has been stopped
+  const maySend = async (refs: TransferRef[]): Promise<boolean> => {
+    if (!stopped && beforeSend) stopped = !(await beforeSend());
+    if (stopped) refs.forEach(ref => onStatus(ref, { status: 'error', error: QUEUE_STOPPED_ERROR }));
+    return !stopped;
+  };
+
+  const confirm = async (refs: TransferRef[], txHash: string) => {
+    try {
+      const outcome = await waitForReceipt(provider, txHash);
+      refs.forEach(ref => onStatus(ref, { status: outcome, error: outcome === 'reverted' ? 'Transaction reverted' : undefined }));
+    } catch (error: unknown) {
+      refs.forEach(ref => onStatus(ref, { status: 'error', error: getErrorMessage(error) }));
+    }
+  };
+
+  let submitted: Array<{ refs: TransferRef[]; txHash: string }> = [];
+  const confirmSubmitted = async () => {
+    for (const { refs, txHash } of submitted) await confirm(refs, txHash);
+    submitted = [];
+  };
+
+  const sendBatch = async (group: TransferLeg[]) => {
+    const { source: from, address } = group[0].asset;
+    const data = encodeTransferBatch(group);
+    const refs = group.map(legRef);
+    try {
+      await estimateViaProvider(provider, from, address, data);
+    } catch {
+      refs.forEach(ref => onStatus(ref, { status: 'error', error: BATCH_REVERTS_ERROR }));
+      return;
+    }
+    if (!(await maySend(refs))) return;
+    refs.forEach(ref => onStatus(ref, { status: 'transferring' }));
+    try {
+      const txHash = await sendViaProvider(provider, from, address, data);
+      submitted.push({ refs, txHash });
+      refs.forEach(ref => onStatus(ref, { status: 'submitted', txHash }));
+    } catch (error: unknown) {
+      refs.forEach(ref => onStatus(ref, { status: 'error', error: getErrorMessage(error) }));
+    }
+  };
+
+  const sendLeg = async (leg: TransferLeg) => {
+    const ref = legRef(leg);
+    const call = legCall(leg);
+    if ('error' in call) {
+      onStatus(ref, { status: 'error', error: call.error });
+      return;
+    }
+    if (!(await maySend([ref]))) return;
+    onStatus(ref, { status: 'transferring' });
+
+    try {
+      const txHash = await sendViaProvider(provider, leg.asset.source, call.to, call.data, call.value);
+      onStatus(ref, { status: 'submitted', txHash });
+      if (leg.asset.type === 'LSP8') {
+        submitted.push({ refs: [ref], txHash });
+      } else {
+        await confirm([ref], txHash);
+      }
+    } catch (error: unknown) {
+      onStatus(ref, { status: 'error', error: getErrorMessage(error) });
+    }
+  };
+
+  const groups = batch ? batchLegs(legs, batch.gasFor) : legs.map(leg => [leg]);
+  for (let i = 0; i < groups.length; i++) {
+    const group = groups[i];
+    if (stopped || group.length === 1) {
+      for (const leg of group) await sendLeg(leg);
+    } else {
+      await sendBatch(group);
+    }
+    // Wait for the receipts once the contract's last transfer has been submitted
+    const next = groups[i + 1];
+    if (!next || assetKey(next[0].asset) !== assetKey(group[0].asset)) await confirmSubmitted();
+  }
+}
+
+// Send every leg of one source as a single atomic EIP-5792 call bundle (one
+// signature), combining the legs of a contract into transferBatch calls when
+// `batch` is set. The bundle's outcome is mapped back onto each leg; legs stay
+// 'transferring' until the wallet reports a receipt, as there is no tx hash
+// before that.
+export async function executeBundle({ provider, legs, onStatus, batch, beforeSend, chainId }: ExecuteTransfersOptions & { chainId: string }): Promise<void> {
+  const { calls, failed } = planCalls(legs, batch);
+  failed.forEach(({ ref, error }) => onStatus(ref, { status: 'error', error }));
+  if (calls.length === 0) return;
+
+  const refs = calls.flatMap(c => c.refs);
+  if (beforeSend && !(await beforeSend())) {
+    refs.forEach(ref => onStatus(ref, { status: 'error', error: QUEUE_STOPPED_ERROR }));
+    return;
+  }
+  refs.forEach(ref => onStatus(ref, { status: 'transferring' }));
+  let result: CallsResult;
+  try {
+    const id = await sendCallsViaProvider(provider, legs[0].asset.source, chainId, calls.map(c => c.call));
+    try {
+      result = await waitForCalls(provider, id);
+    } catch {
+      // The bundle may still be mined: never offer it for sending again
+      refs.forEach(ref => onStatus(ref, { status: 'error', error: BUNDLE_UNCONFIRMED_ERROR }));
+      return;
+    }
+  } catch (error: unknown) {
+    refs.forEach(ref => onStatus(ref, { status: 'error', error: getErrorMessage(error) }));
+    return;
+  }
+  const { outcome, receipts } = result;
+  if (outcome === 'failed') {
+    refs.forEach(ref => onStatus(ref, { status: 'error', error: 'The wallet could not submit the bundle' }));
+    return;
+  }
+  calls.forEach(({ refs }, i) => {
+    // Atomic bundles usually come back as a single transaction
+    const receipt = receipts.length === calls.length ? receipts[i] : receipts[0];
+    const status = receipt ? (receipt.status === '0x1' ? 'confirmed' : 'reverted') : outcome;
+    refs.forEach(ref => onStatus(ref, {
+      status,
+      txHash: receipt?.transactionHash,
+      error: status === 'reverted' ? 'Transaction reverted' : undefined,
+    }));
+  });
+}
@@ -0,0 +1,235 @@
+import { decodeFunctionData, isAddress, isHex, toHex, type Hex } from 'viem';
+import { LSP7_TRANSFER_ABI, LSP8_TRANSFER_ABI } from './constants';
+import { getErrorMessage } from './format';
+import { NETWORKS, type Network, type NetworkId } from './networks';
+import { downloadFile } from './report';
+import { QUEUE_STOPPED_ERROR, type PlannedCall } from './transfers';
+import { sendViaProvider, waitForReceipt } from './wallets';
+import type { EthereumProvider, TransferStatus } from './types';
+
+// A transaction of the plan, unsigned. Quantities are hex strings, as
+// eth_sendTransaction takes them.
+export interface UnsignedTransaction {
+  from: string; // account that signs
+  to: string; // token contract, or the destination of a LYX transfer
+  data: Hex;
+  value: Hex;
+  chainId: number;
+  gas?: Hex; // estimated when the plan was made
+}
+
+// Every transaction a migration sends, in order. Exported as JSON so one
+// person can prepare a migration and another sign it (see executePlan).
+export interface TransactionPlan {
+  version: 1;
+  network: NetworkId;
+  createdAt: number;
+  transactions: UnsignedTransaction[];
+}
+
+// One transfer of a call, read back from its calldata
+export interface DecodedTransfer {
+  from: string;
+  to: string;
+  amount?: bigint; // LSP7 (in the token's smallest unit) / LYX (in wei)
+  tokenId?: Hex; // LSP8
+  force?: boolean; // unset for LYX
+  data?: Hex; // unset for LYX
+}
+
+export interface DecodedCall {
+  standard?: 'LSP7' | 'LSP8' | 'LYX'; // unset when the calldata is not a transfer
+  functionName: string; // transfer, transferBatch, or the selector of an unknown call
+  transfers: DecodedTransfer[];
+}
+
+export interface PlanTransactionStatus {
+  status: TransferStatus['status'];
+  txHash?: string;
+  error?: string;
+}
+
+const PLAN_VERSION = 1;
+const QUANTITY = /^0x[0-9a-f]+$/i;
+
+// The plan for `calls` (see planCalls), with the gas each is expected to use
+export function buildTransactionPlan(network: Network, calls: PlannedCall[], gasFor: (call: PlannedCall) => bigint): TransactionPlan {
+  return {
+    version: PLAN_VERSION,
+    network: network.id,
+    createdAt: Date.now(),
+    transactions: calls.map(planned => ({
+      from: planned.from,
+      to: planned.call.to,
+      data: planned.call.data as Hex,
+      value: toHex(planned.call.value ?? BigInt(0)),
+      chainId: network.chain.id,
+      gas: toHex(gasFor(planned)),
+    })),
+  };
+}
+
+// The LSP7 / LSP8 transfer or transferBatch a transaction makes, or a plain
+// LYX transfer when it carries no calldata
+export function decodeTransaction(tx: Pick<UnsignedTransaction, 'from' | 'to' | 'data' | 'value'>): DecodedCall {
+  if (tx.data === '0x') {
+    return { standard: 'LYX', functionName: 'transfer', transfers: [{ from: tx.from, to: tx.to, amount: BigInt(tx.value) }] };
+  }
+  for (const [standard, abi] of [['LSP7', LSP7_TRANSFER_ABI], ['LSP8', LSP8_TRANSFER_ABI]] as const) {
+    let decoded;
+    try {
+      decoded = decodeFunctionData({ abi, data: tx.data });
+    } catch {
+      continue;
+    }
+    // transfer arguments, as one-entry transferBatch arrays
+    const [from, to, values, force, data] = (decoded.functionName === 'transferBatch'
+      ? decoded.args
+      : decoded.args.map(arg => [arg])) as [string[], string[], Array<bigint | Hex>, boolean[], Hex[]];
+    return {
+      standard,
+      functionName: decoded.functionName,
+      transfers: from.map((f, i) => ({
+        from: f,
+        to: to[i],
+        ...(standard === 'LSP7' ? { amount: values[i] as bigint } : { tokenId: values[i] as Hex }),
+        force: force[i],
+        data: data[i],
+      })),
+    };
+  }
+  return { functionName: tx.data.slice(0, 10), transfers: [] };
+}
+
+function transactionKey(tx: UnsignedTransaction): string {
+  return [tx.from.toLowerCase(), tx.to.toLowerCase(), tx.data.toLowerCase(), BigInt(tx.value).toString(), tx.chainId].join(':');
+}
+
+// The transactions of `after` that `before` doesn't have (added) and those of
+// `before` that `after` no longer has (removed), by index. Gas estimates are
+// not compared. Null when both send the same transactions in the same order.
+export function diffTransactionPlans(before: TransactionPlan, after: TransactionPlan): { added: number[]; removed: number[] } | null {
+  const beforeKeys = before.transactions.map(transactionKey);
+  const afterKeys = after.transactions.map(transactionKey);
+  if (beforeKeys.length === afterKeys.length && beforeKeys.every((key, i) => key === afterKeys[i])) return null;
+  // Match each transaction to an unmatched one of the other plan
+  const unmatched = (keys: string[], others: string[]) => {
+    const pool = [...others];
+    return keys.reduce<number[]>((indexes, key, i) => {
+      const match = pool.indexOf(key);
+      if (match === -1) return [...indexes, i];
+      pool.splice(match, 1);
+      return indexes;
+    }, []);
+  };
+  return { added: unmatched(afterKeys, beforeKeys), removed: unmatched(beforeKeys, afterKeys) };
+}
+
+export function planToJson(plan: TransactionPlan): string {
+  return JSON.stringify(plan, null, 2);
+}
+
+export function planFileName(plan: TransactionPlan): string {
+  const date = new Date(plan.createdAt).toISOString().slice(0, 10);
+  return `lsp-migration-plan-${(plan.transactions[0]?.from ?? '').slice(0, 8).toLowerCase() || 'empty'}-${date}.json`;
+}
+
+export function downloadPlan(plan: TransactionPlan) {
+  downloadFile(planFileName(plan), planToJson(plan), 'application/json');
+}
+
+function parseTransaction(entry: unknown, index: number): UnsignedTransaction | string {
+  const tx = (entry ?? {}) as Partial<Record<keyof UnsignedTransaction, unknown>>;
+  const label = `Transaction ${index + 1}`;
+  if (typeof tx.from !== 'string' || !isAddress(tx.from)) return `${label}: "from" is not an address.`;
+  if (typeof tx.to !== 'string' || !isAddress(tx.to)) return `${label}: "to" is not an address.`;
+  if (typeof tx.data !== 'string' || !isHex(tx.data) || tx.data.length % 2 !== 0) return `${label}: "data" is not hex calldata.`;
+  const value = tx.value ?? '0x0';
+  if (typeof value !== 'string' || !QUANTITY.test(value)) return `${label}: "value" is not a hex quantity.`;
+  if (tx.gas !== undefined && (typeof tx.gas !== 'string' || !QUANTITY.test(tx.gas))) return `${label}: "gas" is not a hex quantity.`;
+  if (typeof tx.chainId !== 'number') return `${label}: "chainId" is missing.`;
+  // Only what the review can show is signed: transfers of the signing account
+  const call = decodeTransaction({ from: tx.from, to: tx.to, data: tx.data as Hex, value: value as Hex });
+  if (!call.standard) return `${label}: not an LSP7 / LSP8 transfer or a LYX transfer (${call.functionName}).`;
+  if (call.standard !== 'LYX' && BigInt(value) > BigInt(0)) return `${label}: a token transfer must not send LYX.`;
+  const signer = tx.from.toLowerCase();
+  if (call.transfers.some(t => t.from.toLowerCase() !== signer)) {
+    return `${label}: transfers tokens of another account than its "from".`;
+  }
+  return {
+    from: tx.from,
+    to: tx.to,
+    data: tx.data as Hex,
+    value: value as Hex,
+    chainId: tx.chainId,
+    ...(tx.gas !== undefined ? { gas: tx.gas as Hex } : {}),
+  };
+}
+
+// Read an exported plan. Every transaction must be an LSP7 / LSP8 transfer or
+// transferBatch, or a plain LYX transfer, of its `from` account, all on the
+// same LUKSO network.
+export function parseTransactionPlan(text: string): { plan: TransactionPlan } | { error: string } {
+  let raw: { version?: unknown; createdAt?: unknown; transactions?: unknown };
+  try {
+    raw = JSON.parse(text) ?? {};
+  } catch {
+    return { error: 'The file is not valid JSON.' };
+  }
+  if (raw.version !== PLAN_VERSION || !Array.isArray(raw.transactions)) {
+    return { error: 'The file is not a transaction plan exported by this app.' };
+  }
+  if (raw.transactions.length === 0) return { error: 'The plan has no transactions.' };
+
+  const transactions: UnsignedTransaction[] = [];
+  for (let index = 0; index < raw.transactions.length; index++) {
+    const tx = parseTransaction(raw.transactions[index], index);
+    if (typeof tx === 'string') return { error: tx };
+    transactions.push(tx);
+  }
+  const chainId = transactions[0].chainId;
+  const network = Object.values(NETWORKS).find(n => n.chain.id === chainId);
+  if (!network) return { error: `Chain ${chainId} is not LUKSO mainnet or testnet.` };
+  if (transactions.some(tx => tx.chainId !== chainId)) return { error: 'The plan mixes transactions of several networks.' };
+  const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now();
+  return { plan: { version: PLAN_VERSION, network: network.id, createdAt, transactions } };
+}
+
+export interface ExecutePlanOptions {
+  provider: EthereumProvider; // must have every transaction's `from` account available
+  transactions: UnsignedTransaction[];
+  onStatus: (index: number, update: Partial<PlanTransactionStatus>) => void;
+  // Called before every transaction, e.g. to switch the wallet to its `from`
+  // account. Resolving false stops the queue.
+  beforeSend?: (tx: UnsignedTransaction) => Promise<boolean>;
+}
+
+// Send the transactions of a plan in order, waiting for each receipt before
+// the next. A transaction is never sent while the wallet is on another chain
+// than its chainId. Like executeTransfers, a failed transaction doesn't abort
+// the queue; only beforeSend can stop it.
+export async function executePlan({ provider, transactions, onStatus, beforeSend }: ExecutePlanOptions): Promise<void> {
+  let stopped = false;
+  for (let index = 0; index < transactions.length; index++) {
+    const tx = transactions[index];
+    if (!stopped && beforeSend) stopped = !(await beforeSend(tx));
+    if (stopped) {
+      onStatus(index, { status: 'error', error: QUEUE_STOPPED_ERROR });
+      continue;
+    }
+    onStatus(index, { status: 'transferring' });
+    try {
+      const chainId = Number(await provider.request({ method: 'eth_chainId' }));
+      if (chainId !== tx.chainId) {
+        onStatus(index, { status: 'error', error: `The wallet is on chain ${chainId}, not the plan's chain ${tx.chainId}.` });
+        continue;
+      }
+      const txHash = await sendViaProvider(provider, tx.from, tx.to, tx.data, BigInt(tx.value) > BigInt(0) ? BigInt(tx.value) : undefined);
+      onStatus(index, { status: 'submitted', txHash });
+      const outcome = await waitForReceipt(provider, txHash);
+      onStatus(index, { status: outcome, error: outcome === 'reverted' ? 'Transaction reverted' : undefined });
+    } catch (error: unknown) {
+      onStatus(index, { status: 'error', error: getErrorMessage(error) });
+    }
+  }
+}
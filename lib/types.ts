@@ -0,0 +1,189 @@
+import type { Hex } from 'viem';
+
+export type EthereumProvider = {
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+  // EIP-1193 events such as accountsChanged / chainChanged, where supported
+  on?: (event: string, listener: (...args: unknown[]) => void) => void;
+  removeListener?: (event: string, listener: (...args: unknown[]) => void) => void;
+};
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EthereumProvider;
+}
+
+export interface TokenAsset {
+  source: string; // address of the legacy account holding it
+  address: string;
+  name: string;
+  symbol: string;
+  type: 'LSP7' | 'LSP8' | 'LYX'; // LYX = the source's native balance
+  balance: string;
+  decimals: number;
+  selected: boolean;
+  iconUrl?: string;
+  tokenIds?: string[]; // bytes32 token IDs for LSP8
+  selectedTokenIds?: string[]; // subset of tokenIds chosen for transfer (LSP8 only)
+  tokenMetadata?: Record<string, TokenMetadata>; // LSP8: per-token LSP4 metadata by token ID, as indexed
+  transferAmount: string; // human-readable amount to transfer (LSP7 only)
+  onChainStatus?: 'verified' | 'corrected' | 'unverified';
+  onChainNote?: string; // explains a correction or why verification failed
+  manual?: boolean; // added by contract address rather than discovered by the indexer
+  destinationId?: string; // receiving destination; the first destination when unset
+  tokenDestinations?: Record<string, string>; // LSP8: per-token-ID destination overrides
+  amountSplits?: AmountSplit[]; // LSP7 / LYX: further portions sent to other destinations
+  transferData?: string; // LSP7 / LSP8: hex or a UTF-8 memo; overrides the migration's data when set
+  spam?: string[]; // why it is suspected spam (see lib/spam.ts); listed as hidden
+}
+
+// LSP4 metadata of a single LSP8 token. Image URLs are kept as indexed
+// (ipfs://, https://, ...) and resolved for display, see lib/images.ts.
+export interface TokenMetadata {
+  name?: string;
+  imageUrl?: string;
+  attributes?: Array<{ key: string; value: string }>;
+}
+
+// A legacy account to migrate from and the EIP-6963 wallet it was added with.
+// The provider is not persisted, so a resumed session may not have it yet.
+export interface SourceAccount {
+  address: string;
+  walletName: string;
+  provider?: EthereumProvider;
+}
+
+// Part of an LSP7 / LYX amount routed to another destination than the asset's own
+export interface AmountSplit {
+  destinationId: string;
+  amount: string; // human-readable
+}
+
+// pending → transferring (awaiting signature) → submitted (hash known) → confirmed | reverted
+// LSP8 statuses are tracked per (collection, tokenId); LSP7 statuses have no tokenId.
+export interface TransferStatus {
+  from?: string; // source account
+  address: string;
+  tokenId?: string;
+  to?: string; // destination address (an LSP7 amount split across profiles has one status per destination)
+  amount?: string; // human-readable amount of this transfer (LSP7 / LYX)
+  status: 'pending' | 'transferring' | 'submitted' | 'confirmed' | 'reverted' | 'error';
+  txHash?: string;
+  error?: string;
+}
+
+export interface LSP7Hold {
+  balance: string;
+  asset: {
+    id: string;
+    lsp4TokenName: string | null;
+    lsp4TokenSymbol: string | null;
+    decimals: number | null;
+    icons: Array<{ src: string }>;
+  };
+}
+
+export interface LSP8Hold {
+  balance: string;
+  token_id: string;
+  baseAsset_id: string;
+  baseAsset: {
+    id: string;
+    lsp4TokenName: string | null;
+    lsp4TokenSymbol: string | null;
+    icons: Array<{ src: string }>;
+  };
+  // The token's own LSP4 metadata; null until the indexer has fetched it
+  token?: {
+    name: string | null;
+    images: Array<{ src: string }>;
+    icons: Array<{ src: string }>;
+    attributes: Array<{ key: string; value: string }>;
+  } | null;
+}
+
+// Number of Hold rows loaded so far, per standard
+export interface ScanProgress {
+  lsp7: number;
+  lsp8: number;
+}
+
+export interface ScanResult {
+  tokens: TokenAsset[];
+  holdCount: number;
+  incomplete?: string; // set when pagination was cut short
+}
+
+// Result of checking the Step 2 destination address:
+// verified = LSP0 + LSP1 via ERC-165, contract = some other contract, eoa = no code
+export interface DestinationCheck {
+  status: 'idle' | 'checking' | 'invalid' | 'verified' | 'contract' | 'eoa' | 'error';
+  message?: string;
+}
+
+// A single transfer call the current selection would send
+export interface PlannedTransfer {
+  from: string; // source account
+  address: string; // token contract
+  tokenId?: string; // LSP8 only
+  to: string; // destination address
+  data: Hex;
+}
+
+// Outcome of running a planned transfer through eth_call / eth_estimateGas.
+// 'unknown' means the simulation itself failed (e.g. RPC error), not the call.
+export interface SimulationResult {
+  from?: string;
+  address: string;
+  tokenId?: string;
+  to?: string;
+  status: 'ok' | 'revert' | 'unknown';
+  gas?: string; // estimated gas units
+  reason?: string; // decoded revert reason
+  details?: string; // human-readable explanation from the LSP docs, when known
+}
+
+export interface TransactionReceipt {
+  status: string; // '0x1' success, '0x0' reverted
+  blockNumber: string;
+}
+
+// A receipt reported by wallet_getCallsStatus (EIP-5792)
+export interface CallsReceipt extends TransactionReceipt {
+  transactionHash: string;
+}
+
+// One call of a wallet_sendCalls bundle
+export interface WalletCall {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+// A receiving address added in Step 2
+export interface Destination {
+  id: string;
+  address: string;
+  label: string;
+  connected: boolean; // connected through the UP extension rather than typed in
+  check: DestinationCheck;
+  registerWithLSP1: boolean; // send with force = false (honoured for verified UPs only)
+}
+
+// One transaction of the plan: an LSP7 / LYX amount, or one LSP8 token ID,
+// going to one destination
+export interface TransferLeg {
+  asset: TokenAsset;
+  tokenId?: string;
+  amount?: string; // human-readable (LSP7 / LYX)
+  to: string;
+  force: boolean;
+  data: Hex; // passed to the receiver's LSP1 hook, '0x' for none
+  error?: string; // set when the amount or data can't be sent
+}
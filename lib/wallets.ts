@@ -0,0 +1,201 @@
+import { toHex } from 'viem';
+import { ACCOUNT_POLL_INTERVAL_MS, RECEIPT_POLL_INTERVAL_MS, RECEIPT_TIMEOUT_MS } from './constants';
+import { isSameAccount } from './sources';
+import type { Network } from './networks';
+import type { CallsReceipt, EthereumProvider, TransactionReceipt, WalletCall } from './types';
+
+export const UP_FILTERS = ['universalprofile', 'lukso', 'universal profile', 'universal-profile'];
+
+export function isUPWallet(value: string): boolean {
+  const lower = value.toLowerCase();
+  return UP_FILTERS.some(f => lower.includes(f));
+}
+
+export function getLuksoProvider(): EthereumProvider | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return (window as unknown as { lukso?: EthereumProvider }).lukso;
+}
+
+// Poll the given provider until the transaction is mined. Resolves with the
+// receipt outcome; throws if the receipt does not show up within the timeout.
+export async function waitForReceipt(provider: EthereumProvider, txHash: string): Promise<'confirmed' | 'reverted'> {
+  const deadline = Date.now() + RECEIPT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const receipt = await provider.request({
+      method: 'eth_getTransactionReceipt',
+      params: [txHash],
+    }) as TransactionReceipt | null;
+    if (receipt) {
+      return receipt.status === '0x1' ? 'confirmed' : 'reverted';
+    }
+    await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+  }
+  throw new Error('Timed out waiting for confirmation');
+}
+
+// Whether the wallet currently exposes `address`, i.e. can sign for it
+export async function hasAccount(provider: EthereumProvider, address: string): Promise<boolean> {
+  const accounts = await provider.request({ method: 'eth_accounts' }) as string[];
+  return accounts.some(account => isSameAccount(account, address));
+}
+
+// Why the wallet can't sign for `address` on the chain right now, if it can't
+export type WalletMismatch = 'account' | 'chain';
+
+export async function getWalletMismatch(provider: EthereumProvider, address: string, chainId: number): Promise<WalletMismatch | null> {
+  if (!await hasAccount(provider, address)) return 'account';
+  const current = await provider.request({ method: 'eth_chainId' }) as string;
+  return Number(current) === chainId ? null : 'chain';
+}
+
+// Wait until the wallet exposes `address` on the chain again, re-checking on
+// every accountsChanged / chainChanged event and on a timer for wallets that
+// don't emit them. onMismatch reports what is still wrong. Rejects with an
+// AbortError when `signal` is aborted (e.g. the user skips this source).
+export async function waitForWalletContext(
+  provider: EthereumProvider,
+  address: string,
+  chainId: number,
+  signal: AbortSignal,
+  onMismatch: (mismatch: WalletMismatch) => void = () => {},
+): Promise<void> {
+  // Set by events that arrive while checking, so they aren't slept through
+  let changed = false;
+  let wake = () => {};
+  const recheck = () => {
+    changed = true;
+    wake();
+  };
+  provider.on?.('accountsChanged', recheck);
+  provider.on?.('chainChanged', recheck);
+  signal.addEventListener('abort', recheck);
+  try {
+    for (;;) {
+      changed = false;
+      const mismatch = await getWalletMismatch(provider, address, chainId);
+      if (!mismatch) return;
+      if (signal.aborted) throw new DOMException('Wallet switch cancelled', 'AbortError');
+      onMismatch(mismatch);
+      if (changed) continue;
+      await new Promise<void>(resolve => {
+        wake = resolve;
+        setTimeout(resolve, ACCOUNT_POLL_INTERVAL_MS);
+      });
+    }
+  } finally {
+    provider.removeListener?.('accountsChanged', recheck);
+    provider.removeListener?.('chainChanged', recheck);
+    signal.removeEventListener('abort', recheck);
+  }
+}
+
+// Switch the wallet to the network, adding it first if the wallet doesn't know it
+export async function switchNetwork(provider: EthereumProvider, network: Network): Promise<void> {
+  try {
+    await provider.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: network.chainParams.chainId }],
+    });
+  } catch (switchError: unknown) {
+    const error = switchError as { code?: number };
+    if (error.code !== 4902) throw switchError;
+    await provider.request({
+      method: 'wallet_addEthereumChain',
+      params: [network.chainParams],
+    });
+  }
+}
+
+// Open the wallet's account picker so the user can expose another account
+export async function requestAccountSwitch(provider: EthereumProvider): Promise<void> {
+  await provider.request({ method: 'wallet_requestPermissions', params: [{ eth_accounts: {} }] });
+}
+
+// Send a transaction through a specific provider (bypasses Wagmi to avoid UP hijack)
+export async function sendViaProvider(
+  provider: EthereumProvider,
+  from: string,
+  to: string,
+  data: string,
+  value?: bigint,
+): Promise<string> {
+  const txHash = await provider.request({
+    method: 'eth_sendTransaction',
+    params: [value === undefined ? { from, to, data } : { from, to, data, value: toHex(value) }],
+  }) as string;
+  return txHash;
+}
+
+// Dry-run a transaction through the provider's RPC; rejects if it would revert
+export async function estimateViaProvider(provider: EthereumProvider, from: string, to: string, data: string): Promise<bigint> {
+  const gas = await provider.request({
+    method: 'eth_estimateGas',
+    params: [{ from, to, data }],
+  }) as string;
+  return BigInt(gas);
+}
+
+// --- EIP-5792 call bundles ---
+
+interface ChainCapabilities {
+  atomic?: { status: 'supported' | 'ready' | 'unsupported' };
+  atomicBatch?: { supported: boolean }; // first version of the spec
+}
+
+// Whether the wallet can submit a call bundle for `address` atomically on the
+// given chain. Wallets without wallet_getCapabilities reject the request,
+// which counts as unsupported.
+export async function supportsAtomicBatch(provider: EthereumProvider, address: string, chainId: string): Promise<boolean> {
+  try {
+    const capabilities = await provider.request({
+      method: 'wallet_getCapabilities',
+      params: [address, [chainId]],
+    }) as Record<string, ChainCapabilities> | null;
+    const chain = capabilities?.[chainId];
+    return chain?.atomic?.status === 'supported' || chain?.atomic?.status === 'ready' || chain?.atomicBatch?.supported === true;
+  } catch {
+    return false;
+  }
+}
+
+// Submit the calls as one atomic bundle (wallet_sendCalls). Resolves with the
+// bundle id to pass to waitForCalls.
+export async function sendCallsViaProvider(provider: EthereumProvider, from: string, chainId: string, calls: WalletCall[]): Promise<string> {
+  const result = await provider.request({
+    method: 'wallet_sendCalls',
+    params: [{
+      version: '2.0.0',
+      chainId,
+      from,
+      atomicRequired: true,
+      calls: calls.map(({ to, data, value }) => (value === undefined ? { to, data } : { to, data, value: toHex(value) })),
+    }],
+  }) as string | { id: string };
+  // Wallets on the first version of the spec return the id itself
+  return typeof result === 'string' ? result : result.id;
+}
+
+export interface CallsResult {
+  outcome: 'confirmed' | 'reverted' | 'failed'; // failed: never made it on-chain
+  receipts: CallsReceipt[]; // one per call, or a single one for the whole bundle
+}
+
+// Poll wallet_getCallsStatus until the bundle is final. Status codes: 1xx
+// pending, 2xx confirmed, 4xx not included, 5xx reverted, 6xx partly reverted.
+// The first version of the spec reported 'PENDING' / 'CONFIRMED' instead.
+export async function waitForCalls(provider: EthereumProvider, id: string): Promise<CallsResult> {
+  const deadline = Date.now() + RECEIPT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const result = await provider.request({
+      method: 'wallet_getCallsStatus',
+      params: [id],
+    }) as { status: number | string; receipts?: CallsReceipt[] | null };
+    const status = typeof result.status === 'number' ? result.status : result.status === 'CONFIRMED' ? 200 : 100;
+    if (status >= 200) {
+      const outcome = status < 300 ? 'confirmed' : status < 500 ? 'failed' : 'reverted';
+      return { outcome, receipts: result.receipts ?? [] };
+    }
+    await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+  }
+  throw new Error('Timed out waiting for confirmation');
+}
@@ -1,10 +1,10 @@
+const { imageRemotePatterns } = require('./lib/image-hosts');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
   images: {
-    remotePatterns: [
-      { protocol: 'https', hostname: 'api.universalprofile.cloud' },
-    ],
+    remotePatterns: imageRemotePatterns(),
   },
   webpack: (config) => {
     // Suppress warnings from @metamask/sdk (bundles react-native code)